@@ -0,0 +1,83 @@
+/**
+ * Access tracking — batch accessCount/lastAccessed writes for recall
+ */
+
+import type { StoreAdapter } from "./types.js";
+
+/**
+ * Write accesses through the store's touch(), or get/put for stores without it
+ */
+async function touchMemories(
+  store: StoreAdapter,
+  ids: string[],
+  timestamp: number,
+): Promise<void> {
+  if (store.touch) {
+    await store.touch(ids, timestamp);
+    return;
+  }
+
+  const counts = new Map<string, number>();
+  for (const id of ids) {
+    counts.set(id, (counts.get(id) ?? 0) + 1);
+  }
+  for (const [id, count] of counts) {
+    const memory = await store.get(id);
+    if (memory) {
+      memory.accessCount += count;
+      memory.lastAccessed = Math.max(memory.lastAccessed, timestamp);
+      await store.put(memory);
+    }
+  }
+}
+
+/**
+ * Records accesses immediately, or buffers them and flushes on an interval
+ * Buffered accesses are written with the time of the latest one, so
+ * lastAccessed can lag by up to one interval.
+ */
+export class AccessTracker {
+  private pending: string[] = [];
+  private latest = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private store: StoreAdapter,
+    private flushInterval: number,
+    private onError: (error: Error) => void,
+  ) {}
+
+  async record(ids: string[], timestamp: number): Promise<void> {
+    if (ids.length === 0) return;
+
+    if (this.flushInterval <= 0) {
+      await touchMemories(this.store, ids, timestamp);
+      return;
+    }
+
+    this.pending.push(...ids);
+    this.latest = Math.max(this.latest, timestamp);
+    if (!this.timer) {
+      this.timer = setTimeout(() => {
+        this.flush().catch((error) => this.onError(error));
+      }, this.flushInterval);
+      // Don't keep the process alive just to flush access counts
+      this.timer.unref?.();
+    }
+  }
+
+  /**
+   * Write buffered accesses now
+   */
+  async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.pending.length === 0) return;
+
+    const ids = this.pending;
+    this.pending = [];
+    await touchMemories(this.store, ids, this.latest);
+  }
+}
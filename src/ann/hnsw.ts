@@ -0,0 +1,497 @@
+/**
+ * HNSW (Hierarchical Navigable Small World) index
+ * Pure-TypeScript approximate nearest neighbour search over cosine similarity
+ */
+
+/**
+ * HNSW tuning options
+ */
+export interface HnswConfig {
+  /**
+   * Max neighbours per node on upper layers (layer 0 keeps 2 × m)
+   * @default 16
+   */
+  m?: number;
+
+  /**
+   * Candidate list size while inserting — higher builds a better graph
+   * @default 100
+   */
+  efConstruction?: number;
+
+  /**
+   * Candidate list size while searching — higher improves recall
+   * @default 64
+   */
+  efSearch?: number;
+}
+
+/**
+ * Serialized index graph
+ * Vectors of live nodes are not stored — they are re-read from the store.
+ * Deleted nodes keep their vector because the graph still routes through them.
+ */
+export interface HnswSnapshot {
+  m: number;
+  efConstruction: number;
+  efSearch: number;
+  dimension: number | null;
+  entryPoint: number;
+  maxLevel: number;
+  nodes: {
+    id: string | null;
+    level: number;
+    neighbors: number[][];
+    vector?: number[];
+  }[];
+}
+
+interface HnswNode {
+  id: string | null; // null = deleted
+  vector: Float32Array; // unit length
+  level: number;
+  neighbors: number[][]; // per layer, internal node indices
+  similarities: number[][]; // per layer, similarity to each neighbour
+}
+
+interface Scored {
+  node: number;
+  similarity: number;
+}
+
+// Rebuild the graph once this share of nodes are deleted
+const COMPACT_RATIO = 0.25;
+
+/**
+ * Normalize to a unit-length Float32Array (cosine becomes a dot product)
+ */
+function toUnitVector(vector: ArrayLike<number>): Float32Array {
+  const out = new Float32Array(vector.length);
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) {
+    norm += vector[i] * vector[i];
+  }
+  norm = Math.sqrt(norm);
+  for (let i = 0; i < vector.length; i++) {
+    out[i] = norm === 0 ? 0 : vector[i] / norm;
+  }
+  return out;
+}
+
+/**
+ * Dot product, unrolled by four (it dominates build and search time)
+ */
+function dot(a: Float32Array, b: Float32Array): number {
+  const n = a.length;
+  let s0 = 0;
+  let s1 = 0;
+  let s2 = 0;
+  let s3 = 0;
+  let i = 0;
+  for (; i + 3 < n; i += 4) {
+    s0 += a[i] * b[i];
+    s1 += a[i + 1] * b[i + 1];
+    s2 += a[i + 2] * b[i + 2];
+    s3 += a[i + 3] * b[i + 3];
+  }
+  for (; i < n; i++) {
+    s0 += a[i] * b[i];
+  }
+  return s0 + s1 + s2 + s3;
+}
+
+/**
+ * Binary heap of scored nodes
+ * The root is the most similar node for a max-heap, the least for a min-heap.
+ */
+class ScoredHeap {
+  readonly items: Scored[] = [];
+
+  constructor(private readonly max: boolean) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): Scored {
+    return this.items[0];
+  }
+
+  push(item: Scored): void {
+    const items = this.items;
+    let i = items.push(item) - 1;
+    while (i > 0) {
+      const parent = (i - 1) >>> 1;
+      if (!this.before(item, items[parent])) break;
+      items[i] = items[parent];
+      i = parent;
+    }
+    items[i] = item;
+  }
+
+  pop(): Scored {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length === 0) return top;
+
+    let i = 0;
+    for (;;) {
+      let child = 2 * i + 1;
+      if (child >= items.length) break;
+      if (
+        child + 1 < items.length &&
+        this.before(items[child + 1], items[child])
+      ) {
+        child++;
+      }
+      if (!this.before(items[child], last)) break;
+      items[i] = items[child];
+      i = child;
+    }
+    items[i] = last;
+    return top;
+  }
+
+  private before(a: Scored, b: Scored): boolean {
+    return this.max ? a.similarity > b.similarity : a.similarity < b.similarity;
+  }
+}
+
+export class HnswIndex {
+  private readonly m: number;
+  private readonly m0: number;
+  private readonly efConstruction: number;
+  private readonly efSearch: number;
+  private readonly levelMultiplier: number;
+
+  private nodes: HnswNode[] = [];
+  private byId = new Map<string, number>();
+  private entryPoint = -1;
+  private maxLevel = -1;
+  private dim: number | null = null;
+  private deleted = 0;
+
+  // Nodes seen by the current searchLayer() call hold its visit stamp
+  private visited = new Uint32Array(0);
+  private visitStamp = 0;
+
+  constructor(config: HnswConfig = {}) {
+    this.m = config.m ?? 16;
+    this.m0 = this.m * 2;
+    this.efConstruction = config.efConstruction ?? 100;
+    this.efSearch = config.efSearch ?? 64;
+    this.levelMultiplier = 1 / Math.log(Math.max(this.m, 2));
+  }
+
+  /**
+   * Number of live (non-deleted) vectors
+   */
+  get size(): number {
+    return this.byId.size;
+  }
+
+  /**
+   * Vector length, fixed by the first vector added
+   */
+  get dimension(): number | null {
+    return this.dim;
+  }
+
+  has(id: string): boolean {
+    return this.byId.has(id);
+  }
+
+  /**
+   * Add or replace a vector
+   * Vectors whose dimension differs from the first one added are ignored.
+   */
+  add(id: string, vector: number[]): void {
+    if (this.dim === null) {
+      this.dim = vector.length;
+    }
+    if (vector.length !== this.dim) {
+      this.remove(id);
+      return;
+    }
+
+    const unit = toUnitVector(vector);
+    const existing = this.byId.get(id);
+    if (existing !== undefined) {
+      // Unchanged vector — nothing to do (common when only metadata changed)
+      if (dot(this.nodes[existing].vector, unit) > 1 - 1e-6) return;
+      this.remove(id);
+    }
+
+    this.insert(id, unit);
+  }
+
+  /**
+   * Remove a vector (soft delete — the node keeps routing searches)
+   */
+  remove(id: string): void {
+    const index = this.byId.get(id);
+    if (index === undefined) return;
+
+    this.nodes[index].id = null;
+    this.byId.delete(id);
+    this.deleted++;
+
+    if (this.deleted > this.nodes.length * COMPACT_RATIO) {
+      this.compact();
+    }
+  }
+
+  /**
+   * Find the k most similar vectors
+   */
+  search(
+    vector: number[],
+    k: number,
+    ef = this.efSearch,
+  ): { id: string; similarity: number }[] {
+    if (this.byId.size === 0 || k <= 0 || vector.length !== this.dim) {
+      return [];
+    }
+
+    const query = toUnitVector(vector);
+    let entry = this.entryPoint;
+    for (let level = this.maxLevel; level > 0; level--) {
+      entry = this.searchLayer(query, [entry], 1, level)[0].node;
+    }
+
+    const results: { id: string; similarity: number }[] = [];
+    for (const item of this.searchLayer(query, [entry], Math.max(ef, k), 0)) {
+      const id = this.nodes[item.node].id;
+      if (id === null) continue;
+      results.push({ id, similarity: item.similarity });
+      if (results.length === k) break;
+    }
+    return results;
+  }
+
+  /**
+   * Serialize the graph (see HnswSnapshot)
+   */
+  toJSON(): HnswSnapshot {
+    return {
+      m: this.m,
+      efConstruction: this.efConstruction,
+      efSearch: this.efSearch,
+      dimension: this.dim,
+      entryPoint: this.entryPoint,
+      maxLevel: this.maxLevel,
+      nodes: this.nodes.map((node) => ({
+        id: node.id,
+        level: node.level,
+        neighbors: node.neighbors,
+        vector: node.id === null ? Array.from(node.vector) : undefined,
+      })),
+    };
+  }
+
+  /**
+   * Restore a serialized graph
+   * Throws if a live node's vector cannot be found or has the wrong dimension.
+   */
+  static fromJSON(
+    snapshot: HnswSnapshot,
+    getVector: (id: string) => number[] | null | undefined,
+  ): HnswIndex {
+    const index = new HnswIndex(snapshot);
+    index.dim = snapshot.dimension;
+    index.entryPoint = snapshot.entryPoint;
+    index.maxLevel = snapshot.maxLevel;
+
+    index.nodes = snapshot.nodes.map((node, i) => {
+      const vector = node.id === null ? node.vector : getVector(node.id);
+      if (!vector || vector.length !== snapshot.dimension) {
+        throw new Error(`HNSW snapshot is stale at node ${i}`);
+      }
+      if (node.id === null) {
+        index.deleted++;
+      } else {
+        index.byId.set(node.id, i);
+      }
+      return {
+        id: node.id,
+        vector: toUnitVector(vector),
+        level: node.level,
+        neighbors: node.neighbors,
+        similarities: [],
+      };
+    });
+
+    // Link similarities aren't serialized — recompute them from the vectors
+    for (const node of index.nodes) {
+      node.similarities = node.neighbors.map((links) =>
+        links.map((neighbor) => dot(node.vector, index.nodes[neighbor].vector)),
+      );
+    }
+
+    return index;
+  }
+
+  /**
+   * Insert a new node into the graph
+   */
+  private insert(id: string, vector: Float32Array): void {
+    const level = Math.floor(-Math.log(Math.random()) * this.levelMultiplier);
+    const index = this.nodes.length;
+    this.nodes.push({
+      id,
+      vector,
+      level,
+      neighbors: Array.from({ length: level + 1 }, () => []),
+      similarities: Array.from({ length: level + 1 }, () => []),
+    });
+    this.byId.set(id, index);
+
+    if (this.entryPoint === -1) {
+      this.entryPoint = index;
+      this.maxLevel = level;
+      return;
+    }
+
+    // Greedy descent through layers above the new node's level
+    let entry = this.entryPoint;
+    for (let l = this.maxLevel; l > level; l--) {
+      entry = this.searchLayer(vector, [entry], 1, l)[0].node;
+    }
+
+    // Connect on every layer the new node lives on
+    let entries = [entry];
+    for (let l = Math.min(level, this.maxLevel); l >= 0; l--) {
+      const found = this.searchLayer(vector, entries, this.efConstruction, l);
+      const maxNeighbors = l === 0 ? this.m0 : this.m;
+      const selected = found.slice(0, maxNeighbors);
+
+      this.nodes[index].neighbors[l] = selected.map((item) => item.node);
+      this.nodes[index].similarities[l] = selected.map(
+        (item) => item.similarity,
+      );
+      for (const { node, similarity } of selected) {
+        this.link(node, index, similarity, l, maxNeighbors);
+      }
+
+      entries = found.map((item) => item.node);
+    }
+
+    if (level > this.maxLevel) {
+      this.entryPoint = index;
+      this.maxLevel = level;
+    }
+  }
+
+  /**
+   * Best-first search within one layer
+   * Returns up to ef nodes sorted by similarity (highest first)
+   */
+  private searchLayer(
+    query: Float32Array,
+    entries: number[],
+    ef: number,
+    level: number,
+  ): Scored[] {
+    const stamp = this.nextVisitStamp();
+    const visited = this.visited;
+    const candidates = new ScoredHeap(true); // best first
+    const results = new ScoredHeap(false); // worst on top, for eviction
+
+    for (const node of entries) {
+      if (visited[node] === stamp) continue;
+      visited[node] = stamp;
+      const item = { node, similarity: dot(query, this.nodes[node].vector) };
+      candidates.push(item);
+      results.push(item);
+      if (results.size > ef) results.pop();
+    }
+
+    while (candidates.size > 0) {
+      const current = candidates.pop();
+      if (
+        results.size >= ef &&
+        current.similarity < results.peek().similarity
+      ) {
+        break;
+      }
+
+      for (const neighbor of this.nodes[current.node].neighbors[level] ?? []) {
+        if (visited[neighbor] === stamp) continue;
+        visited[neighbor] = stamp;
+
+        const similarity = dot(query, this.nodes[neighbor].vector);
+        if (results.size < ef || similarity > results.peek().similarity) {
+          const item = { node: neighbor, similarity };
+          candidates.push(item);
+          results.push(item);
+          if (results.size > ef) results.pop();
+        }
+      }
+    }
+
+    return results.items.sort((a, b) => b.similarity - a.similarity);
+  }
+
+  /**
+   * Start a new visit, growing the stamp array to cover every node
+   */
+  private nextVisitStamp(): number {
+    if (this.visited.length < this.nodes.length) {
+      this.visited = new Uint32Array(Math.max(1024, this.nodes.length * 2));
+      this.visitStamp = 0;
+    }
+    if (this.visitStamp === 0xffffffff) {
+      this.visited.fill(0);
+      this.visitStamp = 0;
+    }
+    return ++this.visitStamp;
+  }
+
+  /**
+   * Link one node to another on a layer
+   * A full node keeps its max most similar links, so the new link replaces
+   * the least similar one if it is closer.
+   */
+  private link(
+    from: number,
+    to: number,
+    similarity: number,
+    level: number,
+    max: number,
+  ): void {
+    const links = this.nodes[from].neighbors[level];
+    const similarities = this.nodes[from].similarities[level];
+    if (links.length < max) {
+      links.push(to);
+      similarities.push(similarity);
+      return;
+    }
+
+    let worst = 0;
+    for (let i = 1; i < links.length; i++) {
+      if (similarities[i] < similarities[worst]) worst = i;
+    }
+    if (similarity > similarities[worst]) {
+      links[worst] = to;
+      similarities[worst] = similarity;
+    }
+  }
+
+  /**
+   * Rebuild the graph without deleted nodes
+   */
+  private compact(): void {
+    const live = this.nodes.filter((node) => node.id !== null);
+
+    this.nodes = [];
+    this.byId.clear();
+    this.entryPoint = -1;
+    this.maxLevel = -1;
+    this.deleted = 0;
+
+    for (const node of live) {
+      this.insert(node.id!, node.vector);
+    }
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Namespaced vector index — one HNSW graph per namespace
+ * Shared by the built-in stores to answer vectorSearch()/nearest()
+ */
+
+import { HnswIndex } from "./hnsw.js";
+import type { HnswConfig, HnswSnapshot } from "./hnsw.js";
+
+export type VectorIndexSnapshot = Record<string, HnswSnapshot>;
+
+export class VectorIndex {
+  private indexes = new Map<string, HnswIndex>();
+  private namespaceById = new Map<string, string>();
+
+  constructor(private readonly config: HnswConfig = {}) {}
+
+  /**
+   * Index a memory's embedding, or drop it if it has none
+   */
+  upsert(id: string, namespace: string, embedding: number[] | null): void {
+    const previous = this.namespaceById.get(id);
+    if (previous !== undefined && previous !== namespace) {
+      this.remove(id);
+    }
+
+    if (!embedding) {
+      this.remove(id);
+      return;
+    }
+
+    let index = this.indexes.get(namespace);
+    if (!index) {
+      index = new HnswIndex(this.config);
+      this.indexes.set(namespace, index);
+    }
+    index.add(id, embedding);
+
+    if (index.has(id)) {
+      this.namespaceById.set(id, namespace);
+    } else {
+      this.namespaceById.delete(id);
+    }
+  }
+
+  remove(id: string): void {
+    const namespace = this.namespaceById.get(id);
+    if (namespace === undefined) return;
+
+    this.indexes.get(namespace)?.remove(id);
+    this.namespaceById.delete(id);
+  }
+
+  /**
+   * Drop one namespace, or everything
+   */
+  clear(namespace?: string): void {
+    if (namespace === undefined) {
+      this.indexes.clear();
+      this.namespaceById.clear();
+      return;
+    }
+
+    this.indexes.delete(namespace);
+    for (const [id, ns] of this.namespaceById) {
+      if (ns === namespace) this.namespaceById.delete(id);
+    }
+  }
+
+  /**
+   * Top-k by cosine similarity within a namespace (or across all of them)
+   * With a predicate, the search widens until k accepted ids are found.
+   */
+  search(
+    embedding: number[],
+    k: number,
+    namespace?: string,
+    accept?: (id: string) => boolean,
+  ): { id: string; similarity: number }[] {
+    let fetch = k;
+    for (;;) {
+      const results = this.searchAll(embedding, fetch, namespace);
+      if (!accept) return results;
+
+      const accepted = results.filter((r) => accept(r.id));
+      if (accepted.length >= k || results.length < fetch) {
+        return accepted.slice(0, k);
+      }
+      fetch *= 4;
+    }
+  }
+
+  toJSON(): VectorIndexSnapshot {
+    const snapshot: VectorIndexSnapshot = {};
+    for (const [namespace, index] of this.indexes) {
+      snapshot[namespace] = index.toJSON();
+    }
+    return snapshot;
+  }
+
+  /**
+   * Restore from a snapshot, checking it covers exactly the given vectors
+   * Returns null when the snapshot is stale — callers should rebuild.
+   */
+  static fromJSON(
+    snapshot: VectorIndexSnapshot,
+    vectors: Map<string, { namespace: string; embedding: number[] }>,
+    config: HnswConfig = {},
+  ): VectorIndex | null {
+    const restored = new VectorIndex(config);
+
+    try {
+      for (const [namespace, data] of Object.entries(snapshot)) {
+        const index = HnswIndex.fromJSON(data, (id) => {
+          const entry = vectors.get(id);
+          return entry?.namespace === namespace ? entry.embedding : null;
+        });
+        restored.indexes.set(namespace, index);
+        for (const node of data.nodes) {
+          if (node.id !== null) restored.namespaceById.set(node.id, namespace);
+        }
+      }
+    } catch {
+      return null;
+    }
+
+    // Every stored vector must be indexed (dimension mismatches excepted)
+    for (const [id, entry] of vectors) {
+      const index = restored.indexes.get(entry.namespace);
+      const expected = index?.dimension ?? entry.embedding.length;
+      if (entry.embedding.length === expected && !index?.has(id)) {
+        return null;
+      }
+    }
+
+    return restored;
+  }
+
+  private searchAll(
+    embedding: number[],
+    k: number,
+    namespace?: string,
+  ): { id: string; similarity: number }[] {
+    if (namespace !== undefined) {
+      return this.indexes.get(namespace)?.search(embedding, k) ?? [];
+    }
+
+    const results: { id: string; similarity: number }[] = [];
+    for (const index of this.indexes.values()) {
+      results.push(...index.search(embedding, k));
+    }
+    results.sort((a, b) => b.similarity - a.similarity);
+    return results.slice(0, k);
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * Byte-level BPE token counter
+ * Pure-TypeScript, loads the vocabulary files of common tokenizers:
+ * - tiktoken rank files (cl100k_base.tiktoken, o200k_base.tiktoken)
+ * - GPT-2 style merges.txt
+ * - Hugging Face tokenizer.json with a byte-level BPE model
+ */
+
+import { readFile } from "fs/promises";
+import { ConfigError } from "./errors.js";
+
+/**
+ * Pre-tokenizer splitting patterns
+ */
+export const GPT2_PATTERN =
+  /'s|'t|'re|'ve|'m|'ll|'d| ?\p{L}+| ?\p{N}+| ?[^\s\p{L}\p{N}]+|\s+(?!\S)|\s+/gu;
+
+export const CL100K_PATTERN =
+  /'(?:[sSdDmMtT]|[lL][lL]|[vV][eE]|[rR][eE])|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+/gu;
+
+export interface BpeOptions {
+  /**
+   * Pre-tokenizer pattern, must have the g flag
+   * @default CL100K_PATTERN for tiktoken files, GPT2_PATTERN otherwise
+   */
+  pattern?: RegExp;
+}
+
+// Pieces whose counts are remembered before the cache is cleared
+const CACHE_SIZE = 10_000;
+
+/**
+ * GPT-2's byte → printable character table, so byte sequences can be held
+ * in strings and match merges.txt entries
+ */
+const BYTE_TO_CHAR: string[] = (() => {
+  const table: string[] = [];
+  let extra = 0;
+  for (let byte = 0; byte < 256; byte++) {
+    const printable =
+      (byte >= 33 && byte <= 126) ||
+      (byte >= 161 && byte <= 172) ||
+      (byte >= 174 && byte <= 255);
+    table.push(String.fromCharCode(printable ? byte : 256 + extra++));
+  }
+  return table;
+})();
+
+const encoder = new TextEncoder();
+
+function bytesToSymbols(bytes: Uint8Array): string[] {
+  return Array.from(bytes, (byte) => BYTE_TO_CHAR[byte]);
+}
+
+/**
+ * Counts tokens the way a byte-level BPE tokenizer encodes text
+ * Merge priorities come either from pair ranks (merges.txt) or from the
+ * rank of the merged token (tiktoken); the lowest rank merges first.
+ */
+export class BpeTokenizer {
+  private cache = new Map<string, number>();
+
+  private constructor(
+    private ranks: Map<string, number>,
+    private mode: "pairs" | "tokens",
+    private pattern: RegExp,
+  ) {
+    if (!pattern.global) {
+      throw new ConfigError("BPE pattern needs the g flag");
+    }
+  }
+
+  /**
+   * Parse a tiktoken rank file: one "<base64 token> <rank>" per line
+   */
+  static fromTiktoken(text: string, options: BpeOptions = {}): BpeTokenizer {
+    const ranks = new Map<string, number>();
+    for (const line of text.split("\n")) {
+      if (!line.trim()) continue;
+      const [token, rank] = line.trim().split(/\s+/);
+      if (!token || rank === undefined || !/^\d+$/.test(rank)) {
+        throw new ConfigError(`invalid tiktoken line "${line}"`);
+      }
+      const symbols = bytesToSymbols(Buffer.from(token, "base64"));
+      ranks.set(symbols.join(""), Number(rank));
+    }
+    return new BpeTokenizer(ranks, "tokens", options.pattern ?? CL100K_PATTERN);
+  }
+
+  /**
+   * Parse a merges.txt file: one "<left> <right>" pair per line, by priority
+   */
+  static fromMerges(text: string, options: BpeOptions = {}): BpeTokenizer {
+    const pairs = text
+      .split("\n")
+      .filter((line) => line.trim() && !line.startsWith("#version"))
+      .map((line) => line.trim().split(" "));
+    return BpeTokenizer.fromPairs(pairs, options);
+  }
+
+  /**
+   * Parse a Hugging Face tokenizer.json with a BPE model
+   */
+  static fromTokenizerJson(
+    text: string,
+    options: BpeOptions = {},
+  ): BpeTokenizer {
+    const model = JSON.parse(text).model;
+    if (model?.type !== "BPE" || !Array.isArray(model.merges)) {
+      throw new ConfigError("tokenizer.json has no BPE merges");
+    }
+    // Merges are "a b" strings in older files and [a, b] pairs in newer ones
+    const pairs = model.merges.map((merge: string | string[]) =>
+      Array.isArray(merge) ? merge : merge.split(" "),
+    );
+    return BpeTokenizer.fromPairs(pairs, options);
+  }
+
+  /**
+   * Load a vocabulary file, picking the parser from its name
+   * (*.tiktoken, *.json, anything else is read as merges.txt)
+   */
+  static async load(
+    path: string,
+    options: BpeOptions = {},
+  ): Promise<BpeTokenizer> {
+    const text = await readFile(path, "utf-8");
+    if (path.endsWith(".tiktoken")) {
+      return BpeTokenizer.fromTiktoken(text, options);
+    }
+    if (path.endsWith(".json")) {
+      return BpeTokenizer.fromTokenizerJson(text, options);
+    }
+    return BpeTokenizer.fromMerges(text, options);
+  }
+
+  private static fromPairs(
+    pairs: string[][],
+    options: BpeOptions,
+  ): BpeTokenizer {
+    const ranks = new Map<string, number>();
+    pairs.forEach((pair, rank) => {
+      if (pair.length !== 2) {
+        throw new ConfigError(`invalid merge "${pair.join(" ")}"`);
+      }
+      const key = `${pair[0]} ${pair[1]}`;
+      if (!ranks.has(key)) ranks.set(key, rank);
+    });
+    return new BpeTokenizer(ranks, "pairs", options.pattern ?? GPT2_PATTERN);
+  }
+
+  /**
+   * Number of tokens in text — a TokenCounter, safe to pass unbound
+   */
+  count = (text: string): number => {
+    let total = 0;
+    for (const [piece] of text.matchAll(this.pattern)) {
+      total += this.countPiece(piece);
+    }
+    return total;
+  };
+
+  private countPiece(piece: string): number {
+    const cached = this.cache.get(piece);
+    if (cached !== undefined) return cached;
+
+    const symbols = bytesToSymbols(encoder.encode(piece));
+    const count =
+      this.mode === "tokens" && this.ranks.has(symbols.join(""))
+        ? 1
+        : this.merge(symbols).length;
+
+    if (this.cache.size >= CACHE_SIZE) this.cache.clear();
+    this.cache.set(piece, count);
+    return count;
+  }
+
+  private rank(left: string, right: string): number | undefined {
+    return this.mode === "pairs"
+      ? this.ranks.get(`${left} ${right}`)
+      : this.ranks.get(left + right);
+  }
+
+  /**
+   * Merge the lowest-ranked adjacent pair (leftmost on ties) until none is left
+   */
+  private merge(symbols: string[]): string[] {
+    while (symbols.length > 1) {
+      let best = -1;
+      let bestRank = Infinity;
+      for (let i = 0; i < symbols.length - 1; i++) {
+        const rank = this.rank(symbols[i], symbols[i + 1]);
+        if (rank !== undefined && rank < bestRank) {
+          best = i;
+          bestRank = rank;
+        }
+      }
+      if (best === -1) break;
+      symbols.splice(best, 2, symbols[best] + symbols[best + 1]);
+    }
+    return symbols;
+  }
+}
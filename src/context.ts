@@ -2,9 +2,42 @@
  * Context formatting for system prompt injection
  */
 
-import type { Memory, ContextOptions } from "./types.js";
+import type {
+  Memory,
+  LLMFunction,
+  ContextOptions,
+  ContextFormat,
+  ContextTemplate,
+  MemoryCategory,
+} from "./types.js";
 import { formatAge } from "./explainer.js";
 import { estimateTokens } from "./tokenizer.js";
+import { ConfigError } from "./errors.js";
+import { buildOverflowSummaryPrompt } from "./prompts/overflow.js";
+
+const DEFAULT_HEADER = "Relevant memories:";
+
+// Most tokens set aside for the overflow summary line
+const SUMMARY_TOKENS = 60;
+
+// Largest knapsack table per item; bigger budgets are solved at coarser steps
+const MAX_KNAPSACK_CAPACITY = 4096;
+
+const DEFAULT_SECTION_ORDER: MemoryCategory[] = [
+  "fact",
+  "preference",
+  "skill",
+  "episode",
+  "context",
+];
+
+const DEFAULT_SECTION_TITLES: Record<string, string> = {
+  fact: "Facts",
+  preference: "Preferences",
+  skill: "Skills",
+  episode: "Episodes",
+  context: "Context",
+};
 
 /**
  * Format memories as bullets for system prompt
@@ -33,6 +66,7 @@ function formatAsXml(memories: Memory[], includeMetadata: boolean): string {
     if (includeMetadata) {
       attrs.push(`age="${age}"`);
       attrs.push(`importance="${m.importance.toFixed(2)}"`);
+      attrs.push(`namespace="${escapeXml(m.namespace)}"`);
     }
 
     lines.push(`  <memory ${attrs.join(" ")}>${escapeXml(m.content)}</memory>`);
@@ -79,6 +113,7 @@ function formatAsJson(memories: Memory[], includeMetadata: boolean): string {
       item.age = age;
       item.importance = m.importance;
       item.accessed = m.accessCount;
+      item.namespace = m.namespace;
     }
 
     return item;
@@ -88,72 +123,301 @@ function formatAsJson(memories: Memory[], includeMetadata: boolean): string {
 }
 
 /**
- * Apply token budgeting to memories
- * Select memories greedily by importance until budget is exhausted
+ * Format memories under one heading per category
+ * Categories follow the given order; unlisted ones come after, in order of
+ * first appearance.
  */
-export function applyTokenBudget(
+function formatAsSections(
   memories: Memory[],
-  maxTokens: number,
-  format: "bullets" | "prose" | "xml" | "json",
   includeMetadata: boolean,
-  header: string,
-): Memory[] {
-  if (maxTokens <= 0) return [];
-
-  // Sort by decayed importance (highest first)
-  const sorted = [...memories].sort((a, b) => {
-    const impA = a.decayedImportance ?? a.importance;
-    const impB = b.decayedImportance ?? b.importance;
-    return impB - impA;
-  });
-
-  // Greedily add memories until budget exhausted
-  const selected: Memory[] = [];
-  let totalTokens = estimateTokens(header);
+  order: MemoryCategory[],
+  titles: Record<string, string>,
+): string {
+  const groups = new Map<MemoryCategory, Memory[]>();
+  for (const category of order) {
+    groups.set(category, []);
+  }
+  for (const m of memories) {
+    const group = groups.get(m.category) ?? [];
+    group.push(m);
+    groups.set(m.category, group);
+  }
 
-  for (const memory of sorted) {
-    // Estimate tokens for this memory in the given format
-    const memoryTokens = estimateMemoryTokens(memory, format, includeMetadata);
+  const sections: string[] = [];
+  for (const [category, group] of groups) {
+    if (group.length === 0) continue;
+
+    const title =
+      titles[category] ??
+      DEFAULT_SECTION_TITLES[category] ??
+      category.charAt(0).toUpperCase() + category.slice(1);
+    const lines = group.map((m) =>
+      includeMetadata
+        ? `- ${m.content} [${formatAge(m.createdAt)}]`
+        : `- ${m.content}`,
+    );
+    sections.push(`${title}:\n${lines.join("\n")}`);
+  }
+  return sections.join("\n\n");
+}
 
-    if (totalTokens + memoryTokens <= maxTokens) {
-      selected.push(memory);
-      totalTokens += memoryTokens;
+/**
+ * Value of a memory placeholder in a template
+ */
+function placeholderValue(
+  memory: Memory,
+  index: number,
+  placeholder: string,
+): string {
+  if (placeholder.startsWith("metadata.")) {
+    let value: unknown = memory.metadata;
+    for (const segment of placeholder.slice("metadata.".length).split(".")) {
+      value =
+        typeof value === "object" && value !== null
+          ? (value as Record<string, unknown>)[segment]
+          : undefined;
     }
+    if (value === undefined || value === null) return "";
+    return typeof value === "object" ? JSON.stringify(value) : String(value);
   }
 
-  return selected;
+  switch (placeholder) {
+    case "content":
+      return memory.content;
+    case "category":
+      return memory.category;
+    case "age":
+      return formatAge(memory.createdAt);
+    case "importance":
+      return memory.importance.toFixed(2);
+    case "namespace":
+      return memory.namespace;
+    case "source":
+      return memory.source;
+    case "id":
+      return memory.id;
+    case "index":
+      return String(index + 1);
+    default:
+      throw new ConfigError(
+        `unknown context template placeholder {${placeholder}}`,
+      );
+  }
 }
 
 /**
- * Estimate tokens for a single memory in a given format
+ * Fill a template's placeholders; the header and footer only know {count}
  */
-function estimateMemoryTokens(
-  memory: Memory,
-  format: "bullets" | "prose" | "xml" | "json",
-  includeMetadata: boolean,
-): number {
-  const baseTokens = estimateTokens(memory.content);
+function fillTemplate(
+  text: string,
+  resolve: (placeholder: string) => string,
+): string {
+  return text.replace(/\{([a-zA-Z]+(?:\.[\w-]+)*)\}/g, (_match, placeholder) =>
+    resolve(placeholder),
+  );
+}
+
+/**
+ * Format memories with a placeholder template
+ */
+function formatWithTemplate(
+  memories: Memory[],
+  template: ContextTemplate,
+  header: string,
+): string {
+  const count = (placeholder: string) => {
+    if (placeholder !== "count") {
+      throw new ConfigError(
+        `unknown context template placeholder {${placeholder}}`,
+      );
+    }
+    return String(memories.length);
+  };
+
+  const parts: string[] = [];
+  const headerText = fillTemplate(template.header ?? header, count);
+  if (headerText) parts.push(headerText);
+  parts.push(
+    memories
+      .map((m, i) =>
+        fillTemplate(template.memory, (placeholder) =>
+          placeholderValue(m, i, placeholder),
+        ),
+      )
+      .join(template.separator ?? "\n"),
+  );
+  const footerText = fillTemplate(template.footer ?? "", count);
+  if (footerText) parts.push(footerText);
+
+  return parts.join("\n");
+}
+
+/**
+ * Render memories in the requested template or format, without budgeting
+ */
+function renderContext(memories: Memory[], options: ContextOptions): string {
+  const format: ContextFormat = options.format ?? "bullets";
+  const includeMetadata = options.includeMetadata ?? false;
+  const header = options.header ?? DEFAULT_HEADER;
+
+  if (typeof options.template === "function") {
+    return options.template(memories);
+  }
+  if (options.template) {
+    return formatWithTemplate(memories, options.template, options.header ?? "");
+  }
 
   switch (format) {
-    case "bullets":
-      // "- content [category, age]"
-      return baseTokens + (includeMetadata ? 5 : 2);
+    case "sectioned": {
+      const sections = formatAsSections(
+        memories,
+        includeMetadata,
+        options.sectionOrder ?? DEFAULT_SECTION_ORDER,
+        options.sectionTitles ?? {},
+      );
+      return header ? `${header}\n\n${sections}` : sections;
+    }
 
     case "xml":
-      // "<memory category="..." age="...">content</memory>"
-      return baseTokens + (includeMetadata ? 15 : 8);
+      // The header is only added when asked for, to keep the output pure XML
+      return options.header
+        ? `${options.header}\n${formatAsXml(memories, includeMetadata)}`
+        : formatAsXml(memories, includeMetadata);
+
+    case "prose":
+      return formatAsProse(memories);
 
     case "json":
-      // {"content": "...", "category": "...", "age": "..."}
-      return baseTokens + (includeMetadata ? 10 : 5);
+      // Always bare JSON so the output stays parseable
+      return formatAsJson(memories, includeMetadata);
 
-    case "prose":
-      // "content, "
-      return baseTokens + 1;
+    case "bullets":
+    default: {
+      const bullets = formatAsBullets(memories, includeMetadata);
+      return header ? `${header}\n${bullets}` : bullets;
+    }
+  }
+}
 
-    default:
-      return baseTokens;
+/**
+ * Value of keeping a memory: its retrieval score when it was recalled,
+ * otherwise its (decayed) importance
+ */
+function budgetValue(memory: Memory): number {
+  return memory.retrievalScore ?? memory.decayedImportance ?? memory.importance;
+}
+
+/**
+ * 0/1 knapsack over token costs; returns the indices of the chosen items
+ * Costs are scaled down for large budgets, rounding up, so the choice never
+ * exceeds the capacity.
+ */
+function knapsack(
+  values: number[],
+  costs: number[],
+  capacity: number,
+): number[] {
+  const scale = Math.ceil(capacity / MAX_KNAPSACK_CAPACITY) || 1;
+  const cap = Math.floor(capacity / scale);
+  const weights = costs.map((cost) => Math.ceil(cost / scale));
+
+  const best = new Float64Array(cap + 1);
+  const taken = weights.map(() => new Uint8Array(cap + 1));
+  weights.forEach((weight, i) => {
+    for (let c = cap; c >= weight; c--) {
+      const value = best[c - weight] + values[i];
+      if (value > best[c]) {
+        best[c] = value;
+        taken[i][c] = 1;
+      }
+    }
+  });
+
+  // Walk back from the full capacity to recover the choice
+  const chosen: number[] = [];
+  let c = cap;
+  for (let i = weights.length - 1; i >= 0; i--) {
+    if (taken[i][c]) {
+      chosen.push(i);
+      c -= weights[i];
+    }
   }
+  return chosen.reverse();
+}
+
+/**
+ * Select the memories with the most total value whose rendering fits
+ * Each memory costs the tokens it adds to the rendered context; the choice
+ * is then checked against the real rendering, trimmed until it fits and
+ * topped up with anything that still does. Selected memories keep their
+ * input order, so a recall ranking survives.
+ */
+function selectWithinBudget(
+  memories: Memory[],
+  maxTokens: number,
+  options: ContextOptions,
+): Memory[] {
+  if (maxTokens <= 0) return [];
+
+  const countTokens = options.tokenCounter ?? estimateTokens;
+  const inOrder = (selected: Memory[]) =>
+    memories.filter((m) => selected.includes(m));
+  const fits = (selected: Memory[]) =>
+    countTokens(renderContext(inOrder(selected), options)) <= maxTokens;
+
+  // Step 1: Order by value (highest first) for trimming and topping up
+  const sorted = [...memories].sort((a, b) => budgetValue(b) - budgetValue(a));
+
+  // Step 2: Cost of each memory on top of the empty rendering
+  const base = countTokens(renderContext([], options));
+  if (maxTokens - base <= 0) return []; // the header alone fills the budget
+  const costs = sorted.map((m) =>
+    Math.max(1, countTokens(renderContext([m], options)) - base),
+  );
+
+  // Step 3: Maximise total value within the budget
+  let selected = knapsack(
+    sorted.map((m) => Math.max(0, budgetValue(m))),
+    costs,
+    maxTokens - base,
+  ).map((i) => sorted[i]);
+
+  // Step 4: Trim the lowest-value memories until the real rendering fits
+  while (selected.length > 0 && !fits(selected)) {
+    selected = selected.slice(0, -1);
+  }
+
+  // Step 5: Top up with memories that still fit, keeping value order
+  for (const memory of sorted) {
+    if (selected.includes(memory)) continue;
+    const candidate = sorted.filter(
+      (m) => m === memory || selected.includes(m),
+    );
+    if (fits(candidate)) selected = candidate;
+  }
+
+  return inOrder(selected);
+}
+
+/**
+ * Apply token budgeting to memories
+ * Select the memories with the highest total retrieval score (or importance,
+ * for memories that weren't recalled) whose rendered context fits the budget
+ */
+export function applyTokenBudget(
+  memories: Memory[],
+  maxTokens: number,
+  format: ContextFormat,
+  includeMetadata: boolean,
+  header: string,
+  options: ContextOptions = {},
+): Memory[] {
+  return selectWithinBudget(memories, maxTokens, {
+    ...options,
+    format,
+    includeMetadata,
+    header,
+  });
 }
 
 /**
@@ -163,10 +427,6 @@ export function formatContext(
   memories: Memory[],
   options: ContextOptions,
 ): string {
-  const format = options.format ?? "bullets";
-  const includeMetadata = options.includeMetadata ?? false;
-  const header = options.header ?? "Relevant memories:";
-
   if (memories.length === 0) {
     return "";
   }
@@ -174,36 +434,96 @@ export function formatContext(
   // Apply token budget if specified
   let selected = memories;
   if (options.maxTokens !== undefined) {
-    selected = applyTokenBudget(
-      memories,
-      options.maxTokens,
-      format,
-      includeMetadata,
-      header,
-    );
+    selected = selectWithinBudget(memories, options.maxTokens, options);
+    // Not even one memory fits the budget
+    if (selected.length === 0) return "";
   }
 
-  // Format based on type
-  let content: string;
-  switch (format) {
-    case "bullets":
-      content = formatAsBullets(selected, includeMetadata);
-      return header ? `${header}\n${content}` : content;
+  return renderContext(selected, options);
+}
 
-    case "xml":
-      content = formatAsXml(selected, includeMetadata);
-      return content;
+/**
+ * Stand-in memory that renders the overflow summary in any format
+ */
+function summaryMemory(content: string, summarized: Memory[]): Memory {
+  const now = Date.now();
+  return {
+    id: "overflow-summary",
+    content,
+    category: "summary",
+    source: "overflow",
+    surprise: 0,
+    importance: 0,
+    accessCount: 0,
+    lastAccessed: now,
+    createdAt: now,
+    embedding: null,
+    metadata: { summarizes: summarized.map((m) => m.id) },
+    namespace: summarized[0].namespace,
+    ttl: null,
+    expiresAt: null,
+    version: 1,
+    history: [],
+  };
+}
 
-    case "prose":
-      content = formatAsProse(selected);
-      return content;
+/**
+ * Format memories for context injection, compressing the memories the token
+ * budget cuts into one summary line written by the LLM
+ * Falls back to formatContext() when everything fits or the LLM call fails.
+ */
+export async function formatContextWithSummary(
+  memories: Memory[],
+  options: ContextOptions,
+  llm: LLMFunction,
+): Promise<string> {
+  const maxTokens = options.maxTokens;
+  if (memories.length === 0 || maxTokens === undefined) {
+    return formatContext(memories, options);
+  }
+  const countTokens = options.tokenCounter ?? estimateTokens;
 
-    case "json":
-      content = formatAsJson(selected, includeMetadata);
-      return content;
+  // Step 1: Nothing to summarize when every memory fits
+  if (
+    selectWithinBudget(memories, maxTokens, options).length === memories.length
+  ) {
+    return formatContext(memories, options);
+  }
 
-    default:
-      content = formatAsBullets(selected, includeMetadata);
-      return header ? `${header}\n${content}` : content;
+  // Step 2: Leave room for the summary line
+  const reserve = Math.min(SUMMARY_TOKENS, Math.floor(maxTokens / 4));
+  const selected = selectWithinBudget(memories, maxTokens - reserve, options);
+  const overflow = memories.filter((m) => !selected.includes(m));
+
+  // Step 3: Ask the LLM for the summary (about 0.75 words per token)
+  let summary: string;
+  try {
+    const response = await llm(
+      buildOverflowSummaryPrompt(
+        overflow,
+        Math.max(5, Math.floor(reserve * 0.75)),
+      ),
+    );
+    summary = response
+      .trim()
+      .split("\n")[0]
+      .replace(/^[-*]\s*/, "")
+      .trim();
+  } catch {
+    return formatContext(memories, options);
+  }
+  if (!summary) return formatContext(memories, options);
+
+  // Step 4: Shorten the summary until the rendering fits
+  const words = summary.split(/\s+/);
+  for (let n = words.length; n > 0; n--) {
+    const content =
+      n === words.length ? summary : `${words.slice(0, n).join(" ")}…`;
+    const rendered = renderContext(
+      [...selected, summaryMemory(content, overflow)],
+      options,
+    );
+    if (countTokens(rendered) <= maxTokens) return rendered;
   }
+  return selected.length > 0 ? renderContext(selected, options) : "";
 }
@@ -0,0 +1,96 @@
+/**
+ * Conversation helpers — recall queries from message history
+ */
+
+import type { Memory, Message, LLMFunction } from "./types.js";
+import { tokenize, tokenCache } from "./tokenizer.js";
+import { buildContextQueryPrompt } from "./prompts/context-query.js";
+
+// Weight of the secondary query relative to the primary one
+const SECONDARY_WEIGHT = 0.5;
+
+// Share of a memory's tokens an assistant message must repeat to count as a reference
+const REFERENCE_COVERAGE = 0.8;
+
+export interface WeightedQuery {
+  query: string;
+  weight: number;
+}
+
+/**
+ * Pick the recall queries for a conversation
+ * The last user message leads; the recent turns (or an LLM-written query,
+ * which then leads instead) add context at a lower weight.
+ */
+export function conversationQueries(
+  messages: Message[],
+  turns: number,
+  rewritten?: string,
+): WeightedQuery[] {
+  const recent = messages.slice(-turns).filter((m) => m.role !== "system");
+  const lastUser = [...messages].reverse().find((m) => m.role === "user");
+  const recentText = recent.map((m) => m.content).join("\n");
+
+  const queries: WeightedQuery[] = [];
+  if (rewritten) {
+    queries.push({ query: rewritten, weight: 1 });
+    if (lastUser) {
+      queries.push({ query: lastUser.content, weight: SECONDARY_WEIGHT });
+    }
+  } else if (lastUser) {
+    queries.push({ query: lastUser.content, weight: 1 });
+    if (recent.some((m) => m !== lastUser)) {
+      queries.push({ query: recentText, weight: SECONDARY_WEIGHT });
+    }
+  } else if (recentText) {
+    queries.push({ query: recentText, weight: 1 });
+  }
+
+  return queries.filter((q) => q.query.trim() !== "");
+}
+
+/**
+ * Ask the LLM for a single retrieval query covering the recent turns
+ * Returns undefined when the response is empty.
+ */
+export async function rewriteContextQuery(
+  messages: Message[],
+  llm: LLMFunction,
+): Promise<string | undefined> {
+  const response = await llm(buildContextQueryPrompt(messages));
+  const query = response
+    .trim()
+    .split("\n")[0]
+    .replace(/^(query:\s*)/i, "")
+    .replace(/^["'`]+|["'`]+$/g, "")
+    .trim();
+  return query || undefined;
+}
+
+/**
+ * Whether an assistant message already repeated this memory
+ */
+export function isReferenced(
+  memory: Memory,
+  assistantTokens: Set<string>[],
+): boolean {
+  const memoryTokens = new Set(tokenCache.get(memory));
+  if (memoryTokens.size === 0) return false;
+
+  return assistantTokens.some((tokens) => {
+    let covered = 0;
+    for (const token of memoryTokens) {
+      if (tokens.has(token)) covered++;
+    }
+    return covered / memoryTokens.size >= REFERENCE_COVERAGE;
+  });
+}
+
+/**
+ * Token sets of the assistant's messages, for isReferenced()
+ */
+export function assistantTokenSets(messages: Message[]): Set<string>[] {
+  return messages
+    .filter((m) => m.role === "assistant")
+    .map((m) => new Set(tokenize(m.content)));
+}
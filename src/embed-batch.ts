@@ -0,0 +1,66 @@
+/**
+ * Batch embedding — fewer round trips when there are several texts
+ */
+
+import type { EmbedBatchFunction, EmbedFunction } from "./types.js";
+import { EngramError } from "./errors.js";
+
+/**
+ * Embed one text through a batch embedder
+ */
+export function embedOne(embedBatch: EmbedBatchFunction): EmbedFunction {
+  return async (text) => {
+    const [embedding] = await embedBatch([text]);
+    if (!embedding) {
+      throw new EngramError(
+        "embedBatch returned no embedding",
+        "EMBED_BATCH_MISMATCH",
+      );
+    }
+    return embedding;
+  };
+}
+
+/**
+ * Embed texts in batches of at most batchSize
+ * Uses embedBatch for batches of two or more texts; when it throws or
+ * returns the wrong number of embeddings, that batch is embedded one text
+ * at a time instead.
+ */
+export function batchEmbedder(
+  embed: EmbedFunction,
+  embedBatch: EmbedBatchFunction | undefined,
+  batchSize: number,
+  onError: (error: Error) => void = () => {},
+): EmbedBatchFunction {
+  const embedChunk = async (texts: string[]): Promise<number[][]> => {
+    if (embedBatch && texts.length > 1) {
+      try {
+        const embeddings = await embedBatch(texts);
+        if (embeddings.length === texts.length) return embeddings;
+        onError(
+          new EngramError(
+            `embedBatch returned ${embeddings.length} embeddings for ${texts.length} texts`,
+            "EMBED_BATCH_MISMATCH",
+          ),
+        );
+      } catch (error) {
+        onError(error as Error);
+      }
+    }
+
+    const embeddings: number[][] = [];
+    for (const text of texts) {
+      embeddings.push(await embed(text));
+    }
+    return embeddings;
+  };
+
+  return async (texts) => {
+    const embeddings: number[][] = [];
+    for (let i = 0; i < texts.length; i += batchSize) {
+      embeddings.push(...(await embedChunk(texts.slice(i, i + batchSize))));
+    }
+    return embeddings;
+  };
+}
@@ -0,0 +1,302 @@
+/**
+ * Embedding cache — reuse embeddings instead of recomputing them
+ */
+
+import { createHash } from "crypto";
+import { readFile, writeFile, mkdir, rename } from "fs/promises";
+import { existsSync } from "fs";
+import { dirname } from "path";
+import type {
+  EmbedBatchFunction,
+  EmbedFunction,
+  EmbeddingCacheOptions,
+  EmbeddingCacheStats,
+  EmbeddingCacheStorage,
+} from "./types.js";
+import { ConfigError } from "./errors.js";
+
+interface JsonEmbeddingFile {
+  version: 1;
+  entries: Record<string, number[]>;
+}
+
+/**
+ * Cached embeddings in a JSON file
+ * Read on first use; new entries are written on flush(). Holds at most
+ * maxEntries, dropping the least recently used, since every flush rewrites
+ * the whole file.
+ */
+export class JsonFileEmbeddingStorage implements EmbeddingCacheStorage {
+  private entries: Promise<Map<string, number[]>> | null = null;
+  private dirty = false;
+
+  constructor(
+    private filePath: string,
+    private maxEntries = 2000,
+  ) {
+    if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+      throw new ConfigError("embeddingCache.maxPersisted must be at least 1");
+    }
+  }
+
+  private load(): Promise<Map<string, number[]>> {
+    this.entries ??= (async () => {
+      if (!existsSync(this.filePath)) return new Map();
+      try {
+        const data: JsonEmbeddingFile = JSON.parse(
+          await readFile(this.filePath, "utf-8"),
+        );
+        const entries = new Map(Object.entries(data.entries ?? {}));
+        this.evict(entries); // the limit may have been lowered since
+        return entries;
+      } catch {
+        // A cache is disposable — start over rather than fail
+        return new Map();
+      }
+    })();
+    return this.entries;
+  }
+
+  async get(key: string): Promise<number[] | undefined> {
+    const entries = await this.load();
+    const embedding = entries.get(key);
+    if (embedding) {
+      // Re-insert so the saved order tracks recency
+      entries.delete(key);
+      entries.set(key, embedding);
+    }
+    return embedding;
+  }
+
+  async set(key: string, embedding: number[]): Promise<void> {
+    const entries = await this.load();
+    entries.delete(key);
+    entries.set(key, embedding);
+    this.evict(entries);
+    this.dirty = true;
+  }
+
+  private evict(entries: Map<string, number[]>): void {
+    while (entries.size > this.maxEntries) {
+      entries.delete(entries.keys().next().value as string);
+      this.dirty = true;
+    }
+  }
+
+  async flush(): Promise<void> {
+    if (!this.dirty) return;
+
+    const entries = await this.load();
+    const dir = dirname(this.filePath);
+    if (!existsSync(dir)) {
+      await mkdir(dir, { recursive: true, mode: 0o700 });
+    }
+
+    // Write to a temp file first so a crash never leaves half a file
+    const data: JsonEmbeddingFile = {
+      version: 1,
+      entries: Object.fromEntries(entries),
+    };
+    const tempPath = `${this.filePath}.tmp`;
+    await writeFile(tempPath, JSON.stringify(data), { mode: 0o600 });
+    await rename(tempPath, this.filePath);
+    this.dirty = false;
+  }
+}
+
+/**
+ * LRU cache in front of an EmbedFunction
+ * Keyed by a hash of the model id and content. Misses fall through to the
+ * persistent storage, if any, before calling the embedder; concurrent
+ * requests for the same content share one call.
+ */
+export class EmbeddingCache {
+  private entries = new Map<string, number[]>();
+  private pending = new Map<string, Promise<number[]>>();
+  private stats = { hits: 0, misses: 0 };
+  private model: string;
+  private maxEntries: number;
+  private storage: EmbeddingCacheStorage | null;
+
+  constructor(
+    private embedFn: EmbedFunction,
+    options: EmbeddingCacheOptions = {},
+    private onError: (error: Error) => void = () => {},
+  ) {
+    this.model = options.model ?? "default";
+    this.maxEntries = options.maxEntries ?? 1000;
+    if (!Number.isInteger(this.maxEntries) || this.maxEntries < 1) {
+      throw new ConfigError("embeddingCache.maxEntries must be at least 1");
+    }
+    this.storage =
+      typeof options.persist === "string"
+        ? new JsonFileEmbeddingStorage(options.persist, options.maxPersisted)
+        : (options.persist ?? null);
+  }
+
+  /**
+   * Cached EmbedFunction — safe to pass unbound
+   * Returns a copy, so callers can't alter the cached vector.
+   */
+  embed = async (text: string): Promise<number[]> => {
+    const key = this.key(text);
+
+    const cached = this.touch(key);
+    if (cached) {
+      this.stats.hits++;
+      return [...cached];
+    }
+
+    let request = this.pending.get(key);
+    if (request) {
+      this.stats.hits++;
+    } else {
+      request = this.load(key, text).finally(() => this.pending.delete(key));
+      this.pending.set(key, request);
+    }
+    return [...(await request)];
+  };
+
+  /**
+   * Embed several texts, passing the uncached ones to fetch in one call
+   */
+  async embedMany(
+    texts: string[],
+    fetch: EmbedBatchFunction,
+  ): Promise<number[][]> {
+    const keys = texts.map((text) => this.key(text));
+    const resolved = new Map<string, number[]>();
+    const missing = new Map<string, string>();
+
+    for (let i = 0; i < texts.length; i++) {
+      const key = keys[i];
+      if (resolved.has(key) || missing.has(key)) {
+        this.stats.hits++;
+        continue;
+      }
+
+      let embedding = this.touch(key) ?? (await this.pending.get(key));
+      if (!embedding) {
+        embedding = await this.fromStorage(key);
+        if (embedding) this.remember(key, embedding);
+      }
+
+      if (embedding) {
+        this.stats.hits++;
+        resolved.set(key, embedding);
+      } else {
+        missing.set(key, texts[i]);
+      }
+    }
+
+    if (missing.size > 0) {
+      this.stats.misses += missing.size;
+      const embeddings = await fetch([...missing.values()]);
+      const missingKeys = [...missing.keys()];
+      for (let i = 0; i < missingKeys.length; i++) {
+        resolved.set(missingKeys[i], embeddings[i]);
+        this.remember(missingKeys[i], embeddings[i]);
+        await this.persist(missingKeys[i], embeddings[i]);
+      }
+    }
+
+    return keys.map((key) => [...resolved.get(key)!]);
+  }
+
+  private key(text: string): string {
+    return createHash("sha256")
+      .update(this.model)
+      .update("\0")
+      .update(text)
+      .digest("hex");
+  }
+
+  private async load(key: string, text: string): Promise<number[]> {
+    const stored = await this.fromStorage(key);
+    if (stored) {
+      this.stats.hits++;
+      this.remember(key, stored);
+      return stored;
+    }
+
+    this.stats.misses++;
+    const embedding = await this.embedFn(text);
+    this.remember(key, embedding);
+    await this.persist(key, embedding);
+    return embedding;
+  }
+
+  /**
+   * Cached embedding, marked as most recently used
+   */
+  private touch(key: string): number[] | undefined {
+    const cached = this.entries.get(key);
+    if (cached) {
+      // Re-insert so Map order tracks recency
+      this.entries.delete(key);
+      this.entries.set(key, cached);
+    }
+    return cached;
+  }
+
+  private async fromStorage(key: string): Promise<number[] | undefined> {
+    if (!this.storage) return undefined;
+    try {
+      return await this.storage.get(key);
+    } catch (error) {
+      this.onError(error as Error);
+      return undefined;
+    }
+  }
+
+  private async persist(key: string, embedding: number[]): Promise<void> {
+    if (!this.storage) return;
+    try {
+      await this.storage.set(key, embedding);
+    } catch (error) {
+      this.onError(error as Error);
+    }
+  }
+
+  private remember(key: string, embedding: number[]): void {
+    this.entries.set(key, embedding);
+    if (this.entries.size > this.maxEntries) {
+      // Maps iterate in insertion order, so the first key is least recently used
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  /**
+   * Write buffered entries to the persistent storage
+   */
+  async flush(): Promise<void> {
+    await this.storage?.flush?.();
+  }
+
+  /**
+   * Drop the in-memory entries (persisted ones are kept)
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Get cache statistics
+   */
+  getStats(): EmbeddingCacheStats {
+    const total = this.stats.hits + this.stats.misses;
+    return {
+      hits: this.stats.hits,
+      misses: this.stats.misses,
+      hitRate: total > 0 ? this.stats.hits / total : 0,
+      size: this.entries.size,
+    };
+  }
+
+  /**
+   * Reset cache statistics
+   */
+  resetStats(): void {
+    this.stats = { hits: 0, misses: 0 };
+  }
+}
@@ -43,3 +43,10 @@ export class ConfigError extends EngramError {
     this.name = "ConfigError";
   }
 }
+
+export class FilterError extends EngramError {
+  constructor(details: string) {
+    super(`Invalid metadata filter: ${details}`, "INVALID_FILTER");
+    this.name = "FilterError";
+  }
+}
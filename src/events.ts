@@ -8,6 +8,7 @@ import type { Memory, RejectedInfo, MergeResult } from "./types.js";
 
 export interface EngramEventMap {
   stored: [memory: Memory];
+  updated: [memory: Memory, previous: Memory];
   rejected: [info: RejectedInfo];
   recalled: [memories: Memory[], query: string];
   forgotten: [ids: string[], count: number];
@@ -2,7 +2,7 @@
  * Explainability module for scoring and ranking decisions
  */
 
-import type { Memory } from "./types.js";
+import type { Memory, ScoreComponents } from "./types.js";
 import { decayedImportance } from "./decay.js";
 import type { EngramConfig } from "./types.js";
 
@@ -15,11 +15,13 @@ export function explainSurprise(
   keyword: number,
   rarity: number,
   hasEmbeddings: boolean,
+  weights: { semantic: number; keyword: number; rarity: number },
 ): string {
+  const fmt = (n: number) => n.toFixed(2);
   if (hasEmbeddings && semantic !== null) {
-    return `surprise: ${surprise.toFixed(3)} (semantic: ${semantic.toFixed(2)}, keyword: ${keyword.toFixed(2)}, rarity: ${rarity.toFixed(2)})`;
+    return `surprise: ${surprise.toFixed(3)} (semantic: ${fmt(semantic)}, keyword: ${fmt(keyword)}, rarity: ${fmt(rarity)}; weights ${fmt(weights.semantic)}/${fmt(weights.keyword)}/${fmt(weights.rarity)})`;
   } else {
-    return `surprise: ${surprise.toFixed(3)} (keyword: ${keyword.toFixed(2)}, rarity: ${rarity.toFixed(2)})`;
+    return `surprise: ${surprise.toFixed(3)} (keyword: ${fmt(keyword)}, rarity: ${fmt(rarity)}; weights ${fmt(weights.keyword)}/${fmt(weights.rarity)})`;
   }
 }
 
@@ -33,6 +35,7 @@ export function explainStoreDecision(
   categoryBoost: number,
   stored: boolean,
   closestSimilarity?: number,
+  thresholdScope?: string,
 ): string {
   const parts: string[] = [];
 
@@ -44,25 +47,55 @@ export function explainStoreDecision(
     `× category_boost: ${categoryBoost.toFixed(1)} → importance: ${importance.toFixed(3)}`,
   );
 
+  const thresholdText = thresholdScope
+    ? `threshold ${threshold} for ${thresholdScope}`
+    : `threshold ${threshold}`;
   if (stored) {
-    parts.push(`→ STORED (${surprise.toFixed(3)} >= threshold ${threshold})`);
+    parts.push(`→ STORED (${surprise.toFixed(3)} >= ${thresholdText})`);
   } else {
-    parts.push(`→ REJECTED (${surprise.toFixed(3)} < threshold ${threshold})`);
+    parts.push(`→ REJECTED (${surprise.toFixed(3)} < ${thresholdText})`);
   }
 
   return parts.join("\n  ");
 }
 
+/**
+ * Generate explanation for blending in the extraction LLM's importance rating
+ */
+export function explainImportanceBlend(
+  scored: number,
+  rating: number,
+  weight: number,
+  importance: number,
+  rationale?: string,
+): string {
+  const reason = rationale ? ` "${rationale}"` : "";
+  return `importance: ${importance.toFixed(3)} = ${(1 - weight).toFixed(2)} × scored ${scored.toFixed(3)} + ${weight.toFixed(2)} × LLM rating ${rating}/5${reason}`;
+}
+
 /**
  * Generate explanation for retrieval score
  */
 export function explainRetrievalScore(
   memory: Memory,
-  relevance: number,
-  importance: number,
-  recency: number,
+  components: ScoreComponents,
   score: number,
   config: EngramConfig,
+  details: {
+    namespaceWeight?: number;
+    rerankScore?: number;
+    hybrid?: {
+      mode: string;
+      alpha: number;
+      vectorRank?: number;
+      keywordRank?: number;
+    };
+    expansion?: {
+      paraphrases: string[];
+      hypothetical?: string;
+      queryRanks: (number | undefined)[];
+    };
+  } = {},
 ): string {
   const baseImportance = memory.importance;
   const decayed = decayedImportance(memory, config);
@@ -70,14 +103,82 @@ export function explainRetrievalScore(
     (Date.now() - memory.createdAt) / (1000 * 60 * 60 * 24),
   );
   const accessBoost = 1 + Math.log2(1 + memory.accessCount) * 0.1;
+  const { relevance, importance, recency, accessFrequency } = components;
+  const weights = {
+    relevance: config.retrievalWeights?.relevance ?? 0.5,
+    importance: config.retrievalWeights?.importance ?? 0.3,
+    recency: config.retrievalWeights?.recency ?? 0.2,
+    accessFrequency: config.retrievalWeights?.accessFrequency ?? 0.0,
+  };
+
+  const terms = [
+    `${weights.relevance} × ${relevance.toFixed(3)}`,
+    `${weights.importance} × ${importance.toFixed(3)}`,
+    `${weights.recency} × ${recency.toFixed(3)}`,
+  ];
+  let blended =
+    weights.relevance * relevance +
+    weights.importance * importance +
+    weights.recency * recency;
+  if (weights.accessFrequency > 0) {
+    terms.push(`${weights.accessFrequency} × ${accessFrequency.toFixed(3)}`);
+    blended += weights.accessFrequency * accessFrequency;
+  }
 
   const parts: string[] = [
     `retrieval_score: ${score.toFixed(3)}`,
     `  relevance: ${relevance.toFixed(3)}`,
     `  importance: ${importance.toFixed(3)} (base: ${baseImportance.toFixed(3)}, decayed: ${decayed.toFixed(3)}, access_boost: ${accessBoost.toFixed(2)}x)`,
     `  recency: ${recency.toFixed(3)} (${ageDays} days old)`,
-    `weights: 0.5 × ${relevance.toFixed(3)} + 0.3 × ${importance.toFixed(3)} + 0.2 × ${recency.toFixed(3)} = ${score.toFixed(3)}`,
   ];
+  if (weights.accessFrequency > 0) {
+    parts.push(
+      `  access_frequency: ${accessFrequency.toFixed(3)} (${memory.accessCount} accesses)`,
+    );
+  }
+  if (details.namespaceWeight !== undefined) {
+    const total = blended * details.namespaceWeight;
+    parts.push(
+      `weights: (${terms.join(" + ")}) × ${details.namespaceWeight.toFixed(2)} namespace = ${total.toFixed(3)}`,
+    );
+  } else {
+    parts.push(`weights: ${terms.join(" + ")} = ${blended.toFixed(3)}`);
+  }
+
+  if (details.hybrid) {
+    const { mode, alpha, vectorRank, keywordRank } = details.hybrid;
+    parts.push(
+      `hybrid: ${mode} (alpha ${alpha.toFixed(2)}) — vector rank ${vectorRank ?? "none"}, keyword rank ${keywordRank ?? "none"}`,
+    );
+  }
+
+  if (details.expansion) {
+    const { paraphrases, hypothetical, queryRanks } = details.expansion;
+    const ranks = Array.from(queryRanks, (rank) => rank ?? "none");
+    parts.push(
+      `relevance fused over ${ranks.length} queries (ranks: ${ranks.join(", ")})`,
+    );
+    if (paraphrases.length > 0) {
+      parts.push(
+        `expansions: ${paraphrases.map((p) => JSON.stringify(p)).join(", ")}`,
+      );
+    }
+    if (hypothetical) {
+      parts.push(`hyde: ${JSON.stringify(hypothetical)}`);
+    }
+  }
+
+  if (details.namespaceWeight !== undefined) {
+    parts.push(
+      `namespace: ${memory.namespace} (weight ${details.namespaceWeight.toFixed(2)}x)`,
+    );
+  }
+
+  if (details.rerankScore !== undefined) {
+    parts.push(
+      `rerank_score: ${details.rerankScore.toFixed(3)} (pre-rerank: ${score.toFixed(3)})`,
+    );
+  }
 
   return parts.join("\n");
 }
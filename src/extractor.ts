@@ -4,6 +4,7 @@
 
 import type { Message, MemoryCandidate, LLMFunction } from "./types.js";
 import { buildExtractionPrompt, buildRetryPrompt } from "./prompts/extract.js";
+import type { ExtractionPromptOptions } from "./prompts/extract.js";
 import { ExtractionError } from "./errors.js";
 
 /**
@@ -61,10 +62,27 @@ function validateCandidates(
         item.content.trim().length > 0 &&
         typeof item.category === "string",
     )
-    .map((item) => ({
-      content: item.content.trim().slice(0, 500), // Enforce max length
-      category: validCategories.has(item.category) ? item.category : "fact", // Default unknown categories to 'fact'
-    }));
+    .map((item) => {
+      const candidate: MemoryCandidate = {
+        content: item.content.trim().slice(0, 500), // Enforce max length
+        category: validCategories.has(item.category) ? item.category : "fact", // Default unknown categories to 'fact'
+      };
+
+      // Optional 1–5 rating; numeric strings are accepted, anything else ignored
+      const rating =
+        typeof item.importance === "number" ||
+        typeof item.importance === "string"
+          ? Number(item.importance)
+          : NaN;
+      if (Number.isFinite(rating)) {
+        candidate.importance = Math.min(5, Math.max(1, Math.round(rating)));
+        if (typeof item.rationale === "string" && item.rationale.trim()) {
+          candidate.rationale = item.rationale.trim().slice(0, 200);
+        }
+      }
+
+      return candidate;
+    });
 }
 
 /**
@@ -74,6 +92,7 @@ export async function extractMemories(
   messages: Message[],
   llm: LLMFunction,
   categories: string[],
+  options: ExtractionPromptOptions = {},
 ): Promise<{
   candidates: MemoryCandidate[];
   errors: string[];
@@ -82,13 +101,13 @@ export async function extractMemories(
 
   try {
     // First attempt
-    const prompt = buildExtractionPrompt(messages, categories);
+    const prompt = buildExtractionPrompt(messages, categories, options);
     let response = await llm(prompt);
     let candidates = parseExtraction(response, categories);
 
     // If parsing failed, retry once with stricter prompt
     if (candidates.length === 0 && response.trim() !== "[]") {
-      const retryPrompt = buildRetryPrompt(messages);
+      const retryPrompt = buildRetryPrompt(messages, options);
       response = await llm(retryPrompt);
       candidates = parseExtraction(response, categories);
 
@@ -6,16 +6,23 @@
 
 import { randomUUID } from "crypto";
 import { EngramEmitter } from "./events.js";
+import type { EngramEventMap, EngramEventName } from "./events.js";
 import type {
   EngramConfig,
   Memory,
+  MemoryVersion,
   Message,
   RememberOptions,
   RememberResult,
   StoreOptions,
+  UpdatePatch,
+  UpdateOptions,
   RecallOptions,
+  RecallResult,
   ForgetOptions,
   ForgetResult,
+  DeleteOptions,
+  MemoryFilter,
   EngramStats,
   ImportOptions,
   BootstrapInput,
@@ -25,15 +32,36 @@ import type {
   StoreAdapter,
   LLMFunction,
   EmbedFunction,
+  EmbedBatchFunction,
+  RerankFunction,
   ContextOptions,
   MergeOptions,
   MergeResult,
+  ScopeOptions,
+  SurpriseWeights,
+  MetadataFilter,
+  SearchFilter,
 } from "./types.js";
-import { NoLLMError, EngramError } from "./errors.js";
+import { NoLLMError, EngramError, ConfigError } from "./errors.js";
 import { JsonFileStore } from "./stores/json-file.js";
 import { extractMemories } from "./extractor.js";
-import { scoreAndDecide } from "./scorer.js";
+import {
+  blendImportance,
+  detectConflict,
+  resolveSurpriseThreshold,
+  surpriseScorer,
+} from "./scorer.js";
 import { retrieveMemories } from "./retriever.js";
+import { AccessTracker } from "./access-tracker.js";
+import { EmbeddingCache } from "./embedding-cache.js";
+import { batchEmbedder, embedOne } from "./embed-batch.js";
+import {
+  conversationQueries,
+  rewriteContextQuery,
+  assistantTokenSets,
+  isReferenced,
+} from "./conversation.js";
+import { llmReranker } from "./reranker.js";
 import {
   shouldPrune,
   sortByDecayedImportance,
@@ -51,7 +79,9 @@ import {
 import { exportToJson, parseJsonExport } from "./formats/json.js";
 import { exportToMarkdown, parseMarkdownExport } from "./formats/markdown.js";
 import { exportToCsv } from "./formats/csv.js";
-import { formatContext } from "./context.js";
+import { formatContext, formatContextWithSummary } from "./context.js";
+import { estimateTokens } from "./tokenizer.js";
+import { matchesMetadata } from "./metadata-filter.js";
 
 const DEFAULT_CATEGORIES = [
   "fact",
@@ -69,15 +99,74 @@ const DEFAULT_IMPORTANCE_BOOST: Record<string, number> = {
   context: 0.9,
 };
 
+/**
+ * Count memories per category
+ */
+function countByCategory(memories: Memory[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const memory of memories) {
+    counts[memory.category] = (counts[memory.category] ?? 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * Reject negative surprise weights and sets that sum to zero
+ */
+function validateSurpriseWeights(weights: SurpriseWeights = {}): void {
+  const sets = {
+    surpriseWeights: [weights.semantic, weights.keyword, weights.rarity],
+    "surpriseWeights.withoutEmbeddings": [
+      weights.withoutEmbeddings?.keyword,
+      weights.withoutEmbeddings?.rarity,
+    ],
+  };
+  for (const [name, values] of Object.entries(sets)) {
+    if (values.some((value) => value !== undefined && value < 0)) {
+      throw new ConfigError(`${name} must not be negative`);
+    }
+    if (values.every((value) => value === 0)) {
+      throw new ConfigError(`${name} must not all be 0`);
+    }
+  }
+}
+
+/**
+ * Whether a filter narrows beyond its namespace
+ */
+function hasConditions(filter: MemoryFilter): boolean {
+  return (
+    (filter.categories?.length ?? 0) > 0 ||
+    filter.source !== undefined ||
+    filter.minImportance !== undefined ||
+    filter.maxAge !== undefined ||
+    filter.since !== undefined ||
+    Object.keys(filter.metadata ?? {}).length > 0 ||
+    filter.limit !== undefined
+  );
+}
+
 export class Engram extends EngramEmitter {
   private config: Required<
-    Omit<EngramConfig, "llm" | "embed" | "hooks" | "store">
+    Omit<
+      EngramConfig,
+      "llm" | "embed" | "embedBatch" | "hooks" | "store" | "rerank"
+    >
   > & {
     llm?: LLMFunction;
     embed?: EmbedFunction;
+    embedBatch?: EmbedBatchFunction;
     hooks?: EngramConfig["hooks"];
+    rerank?: RerankFunction;
   };
   private storeAdapter: StoreAdapter;
+  private accessTracker: AccessTracker;
+  private embeddingCache: EmbeddingCache | null = null;
+
+  // Set on handles returned by scope()
+  private parent: Engram | null = null;
+  private scopeMetadata: Record<string, any> = {};
+  private inheritNamespaces: string[] = [];
 
   constructor(config: EngramConfig = {}) {
     super();
@@ -85,15 +174,45 @@ export class Engram extends EngramEmitter {
     // Prevent memory leaks from excessive event listeners
     this.setMaxListeners(50);
 
+    if (config.rerank === "llm" && !config.llm) {
+      throw new ConfigError('rerank: "llm" requires an llm adapter');
+    }
+    if (config.expandQuery && !config.llm) {
+      throw new ConfigError("expandQuery requires an llm adapter");
+    }
+    validateSurpriseWeights(config.surpriseWeights);
+    if (
+      config.llmImportanceWeight !== undefined &&
+      !(config.llmImportanceWeight >= 0 && config.llmImportanceWeight <= 1)
+    ) {
+      throw new ConfigError("llmImportanceWeight must be between 0 and 1");
+    }
+    if (
+      config.embedBatchSize !== undefined &&
+      (!Number.isInteger(config.embedBatchSize) || config.embedBatchSize < 1)
+    ) {
+      throw new ConfigError("embedBatchSize must be a positive integer");
+    }
+
     // Initialize config with defaults
     this.config = {
       llm: config.llm,
-      embed: config.embed,
+      // A batch embedder alone also serves single texts
+      embed:
+        config.embed ??
+        (config.embedBatch ? embedOne(config.embedBatch) : undefined),
+      embedBatch: config.embedBatch,
       surpriseThreshold: config.surpriseThreshold ?? 0.3,
+      categoryThresholds: config.categoryThresholds ?? {},
+      sourceThresholds: config.sourceThresholds ?? {},
+      surpriseWeights: config.surpriseWeights ?? {},
+      scorer:
+        config.scorer ?? surpriseScorer({ weights: config.surpriseWeights }),
       importanceBoost: {
         ...DEFAULT_IMPORTANCE_BOOST,
         ...config.importanceBoost,
       },
+      llmImportanceWeight: config.llmImportanceWeight ?? 0,
       categories: config.categories ?? DEFAULT_CATEGORIES,
       decayHalfLifeDays: config.decayHalfLifeDays ?? 30,
       maxRetentionDays: config.maxRetentionDays ?? 90,
@@ -105,13 +224,55 @@ export class Engram extends EngramEmitter {
         recency: config.retrievalWeights?.recency ?? 0.2,
         accessFrequency: config.retrievalWeights?.accessFrequency ?? 0.0,
       },
+      rerank:
+        config.rerank === "llm" ? llmReranker(config.llm!) : config.rerank,
+      hybrid: config.hybrid ?? "off",
+      hybridAlpha: config.hybridAlpha ?? 0.5,
+      expandQuery: config.expandQuery ?? false,
+      accessTracking: config.accessTracking ?? "all",
+      accessFlushInterval: config.accessFlushInterval ?? 0,
+      embeddingCache: config.embeddingCache ?? true,
+      embedBatchSize: config.embedBatchSize ?? 64,
+      tokenCounter: config.tokenCounter ?? estimateTokens,
       namespace: config.namespace ?? "default",
       hooks: config.hooks,
       trackHistory: config.trackHistory ?? true,
       maxHistoryPerMemory: config.maxHistoryPerMemory ?? 10,
+      detectContradictions: config.detectContradictions ?? false,
+      contradictionThreshold: config.contradictionThreshold ?? 0.5,
+      annNeighbors: config.annNeighbors ?? 32,
     };
 
     this.storeAdapter = config.store ?? new JsonFileStore();
+    this.accessTracker = new AccessTracker(
+      this.storeAdapter,
+      this.config.accessFlushInterval,
+      (error) => this.emit("warning", `Access flush failed: ${error.message}`),
+    );
+
+    if (this.config.embed) {
+      const embedBatch = batchEmbedder(
+        this.config.embed,
+        config.embedBatch,
+        this.config.embedBatchSize,
+        (error) =>
+          this.emit("warning", `Batch embedding failed: ${error.message}`),
+      );
+      this.config.embedBatch = embedBatch;
+
+      // Every embed call — scorer, retrieval, import — goes through the cache
+      if (this.config.embeddingCache !== false) {
+        const cache = new EmbeddingCache(
+          this.config.embed,
+          this.config.embeddingCache === true ? {} : this.config.embeddingCache,
+          (error) =>
+            this.emit("warning", `Embedding cache failed: ${error.message}`),
+        );
+        this.embeddingCache = cache;
+        this.config.embed = cache.embed;
+        this.config.embedBatch = (texts) => cache.embedMany(texts, embedBatch);
+      }
+    }
   }
 
   /**
@@ -125,16 +286,163 @@ export class Engram extends EngramEmitter {
 
   /**
    * Close and cleanup
+   * Closing a scoped handle only detaches its listeners; the store stays open.
    */
   async close(): Promise<void> {
+    // Write buffered access counts before the store goes away
+    await this.accessTracker.flush();
+    await this.embeddingCache?.flush();
+
     // Remove all event listeners to prevent memory leaks
     this.removeAllListeners();
 
-    if (this.storeAdapter.close) {
+    if (!this.parent && this.storeAdapter.close) {
       await this.storeAdapter.close();
     }
   }
 
+  /**
+   * scope() — A tenant view sharing this engram's store, LLM, embed and hooks
+   * Every call on the handle is confined to its namespace and metadata.
+   */
+  scope(options: ScopeOptions = {}): Engram {
+    const scoped = new Engram({ store: this.storeAdapter });
+    scoped.config = {
+      ...this.config,
+      namespace: options.namespace ?? this.config.namespace,
+    };
+    scoped.parent = this;
+    scoped.accessTracker = this.accessTracker;
+    scoped.embeddingCache = this.embeddingCache;
+    scoped.scopeMetadata = { ...this.scopeMetadata, ...options.metadata };
+    scoped.inheritNamespaces = options.inherit ?? [];
+    return scoped;
+  }
+
+  /**
+   * Scoped handles also forward events to the engram they came from
+   */
+  emit<K extends EngramEventName>(
+    event: K,
+    ...args: EngramEventMap[K]
+  ): boolean {
+    if (!this.parent) {
+      return super.emit(event, ...args);
+    }
+
+    const handled = this.listenerCount(event) > 0 && super.emit(event, ...args);
+
+    // Don't turn an error the scope handled into an unhandled one upstream
+    if (
+      handled &&
+      event === "error" &&
+      this.parent.listenerCount(event) === 0
+    ) {
+      return true;
+    }
+    return this.parent.emit(event, ...args) || handled;
+  }
+
+  /**
+   * Whether a memory belongs to this handle (always true unscoped)
+   */
+  private owns(memory: Memory): boolean {
+    if (!this.parent) return true;
+
+    // Same semantics as the store filters, so dotted keys are paths
+    return (
+      memory.namespace === this.config.namespace &&
+      matchesMetadata(memory.metadata, this.scopeMetadata)
+    );
+  }
+
+  /**
+   * Whether this handle may read a memory (its own or an inherited namespace)
+   */
+  private canRead(memory: Memory): boolean {
+    return (
+      this.owns(memory) || this.inheritNamespaces.includes(memory.namespace)
+    );
+  }
+
+  /**
+   * Reject namespaces a scoped handle may not touch
+   */
+  private assertNamespace(
+    namespace: string | string[] | undefined,
+    access: "read" | "write",
+  ): void {
+    if (!this.parent || namespace === undefined) return;
+
+    const allowed =
+      access === "read"
+        ? [this.config.namespace, ...this.inheritNamespaces]
+        : [this.config.namespace];
+    for (const ns of Array.isArray(namespace) ? namespace : [namespace]) {
+      if (!allowed.includes(ns)) {
+        throw new EngramError(
+          `Namespace "${ns}" is outside this scope`,
+          "OUT_OF_SCOPE",
+        );
+      }
+    }
+  }
+
+  /**
+   * Merge the scope's metadata over caller-supplied metadata
+   */
+  private withScopeMetadata(
+    metadata: Record<string, any> | undefined,
+  ): Record<string, any> {
+    // Dotted keys are written as nested paths, which is how filters read them
+    const merged: Record<string, any> = { ...metadata };
+    for (const [path, value] of Object.entries(this.scopeMetadata)) {
+      const segments = path.split(".");
+      let target = merged;
+      for (const segment of segments.slice(0, -1)) {
+        const next = target[segment];
+        target[segment] =
+          typeof next === "object" && next !== null && !Array.isArray(next)
+            ? { ...next }
+            : {};
+        target = target[segment];
+      }
+      target[segments[segments.length - 1]] = value;
+    }
+    return merged;
+  }
+
+  /**
+   * Add the scope's metadata to a caller-supplied metadata filter
+   */
+  private scopeFilter(metadata: MetadataFilter | undefined): MetadataFilter {
+    return { ...metadata, ...this.scopeMetadata };
+  }
+
+  /**
+   * List memories visible to this handle (defaults to its own namespace)
+   */
+  private async listScoped(filter: MemoryFilter = {}): Promise<Memory[]> {
+    const namespace = filter.namespace ?? this.config.namespace;
+    if (!this.parent) {
+      return this.storeAdapter.list({ ...filter, namespace });
+    }
+
+    this.assertNamespace(namespace, "read");
+    const metadata =
+      namespace === this.config.namespace
+        ? this.scopeFilter(filter.metadata)
+        : filter.metadata;
+    const memories = await this.storeAdapter.list({
+      ...filter,
+      namespace,
+      metadata,
+    });
+
+    // Stores may not support metadata filters — enforce the scope here too
+    return memories.filter((m) => this.canRead(m));
+  }
+
   /**
    * remember() — Extract and store memories from conversation
    */
@@ -166,6 +474,7 @@ export class Engram extends EngramEmitter {
         processedMessages,
         this.config.llm,
         this.config.categories,
+        { importance: this.config.llmImportanceWeight > 0 },
       );
 
       result.errors.push(...errors);
@@ -176,24 +485,109 @@ export class Engram extends EngramEmitter {
         this.config.hooks,
       );
 
-      // Step 4: Load existing memories for scoring
-      const existing = await this.storeAdapter.list({
-        namespace: this.config.namespace,
-      });
+      // Step 4: Existing memories for scoring, loaded only when the store has
+      // no ANN index (with one, each candidate loads its nearest neighbours)
+      let existing: Memory[] | null = null;
+      let categoryCounts: Record<string, number> | null = null;
+      const superseded = new Map<string, Memory>(); // dry runs never write them
+
+      // Embed all candidates in one batch for scoring and storage
+      const embed = await this.prefetchEmbeddings(
+        filteredCandidates.map((candidate) => candidate.content),
+      );
 
       // Step 5: Score each candidate
       for (const candidate of filteredCandidates) {
         const categoryBoost =
           this.config.importanceBoost[candidate.category] ?? 1.0;
 
-        const decision = await scoreAndDecide(
-          candidate,
-          existing,
-          options.forceStore ? 0 : this.config.surpriseThreshold,
+        // Compare against nearest neighbours when the store has an ANN index
+        const neighbors = await this.nearestExisting(candidate.content, embed);
+        if (!neighbors) existing ??= await this.listScoped();
+        const comparison =
+          neighbors?.map((m) => superseded.get(m.id) ?? m) ?? existing!;
+        categoryCounts ??= existing
+          ? countByCategory(existing)
+          : await this.categoryCounts();
+
+        // Step 5a: Contradiction pass (opt-in)
+        if (this.config.detectContradictions && !options.forceStore) {
+          const conflict = await detectConflict(
+            candidate,
+            comparison,
+            this.config.llm,
+            this.config.contradictionThreshold,
+            embed,
+          );
+
+          if (conflict?.relation === "duplicate") {
+            const rejected: RejectedInfo = {
+              content: candidate.content,
+              surprise: 1 - conflict.similarity,
+              reason: "duplicate_content",
+              explanation: options.explain
+                ? `LLM classified as duplicate of existing memory (similarity ${conflict.similarity.toFixed(3)})`
+                : undefined,
+              closestExisting: conflict.memory,
+            };
+            result.rejected.push(rejected);
+
+            if (!options.dryRun) {
+              this.emit("rejected", rejected);
+            }
+            continue;
+          }
+
+          if (conflict?.relation === "contradiction") {
+            const updated = await this.applyUpdate(
+              conflict.memory,
+              {
+                content: candidate.content,
+                source: options.source,
+                metadata: options.metadata,
+              },
+              "conflict_resolved",
+              options.dryRun ?? false,
+            );
+
+            if (!updated) {
+              result.rejected.push({
+                content: candidate.content,
+                surprise: 1 - conflict.similarity,
+                reason: "hook_rejected",
+              });
+              continue;
+            }
+
+            if (options.explain) {
+              updated.explanation = `contradicts existing memory (similarity ${conflict.similarity.toFixed(3)}) → SUPERSEDED "${conflict.memory.content}"`;
+            }
+            result.stored.push(updated);
+
+            // Replace the old version for subsequent candidates
+            superseded.set(updated.id, updated);
+            const index = existing?.indexOf(conflict.memory) ?? -1;
+            if (index !== -1) existing![index] = updated;
+            continue;
+          }
+        }
+
+        const { threshold, scope } = options.forceStore
+          ? { threshold: 0, scope: undefined }
+          : resolveSurpriseThreshold(
+              this.config,
+              candidate.category,
+              options.source,
+            );
+        const decision = await this.config.scorer.score(candidate, {
+          existing: comparison,
+          categoryCount: categoryCounts[candidate.category] ?? 0,
           categoryBoost,
-          this.config.embed,
-          options.explain,
-        );
+          threshold,
+          thresholdScope: scope,
+          embed,
+          explain: options.explain ?? false,
+        });
 
         if (!decision.stored) {
           // Rejected
@@ -212,6 +606,17 @@ export class Engram extends EngramEmitter {
           continue;
         }
 
+        // Blend in the LLM's importance rating when extraction asked for one
+        const blended = blendImportance(
+          candidate,
+          decision.importance,
+          this.config.llmImportanceWeight,
+        );
+        const explanation =
+          decision.explanation && blended.explanation
+            ? `${decision.explanation}\n  ${blended.explanation}`
+            : decision.explanation;
+
         // Step 6: Create memory record
         const now = Date.now();
         const memory: Memory = {
@@ -220,14 +625,12 @@ export class Engram extends EngramEmitter {
           category: candidate.category,
           source: options.source ?? "unknown",
           surprise: decision.surprise,
-          importance: decision.importance,
+          importance: blended.importance,
           accessCount: 0,
           lastAccessed: now,
           createdAt: now,
-          embedding: this.config.embed
-            ? await this.config.embed(candidate.content)
-            : null,
-          metadata: options.metadata ?? {},
+          embedding: embed ? await embed(candidate.content) : null,
+          metadata: this.withScopeMetadata(options.metadata),
           namespace: this.config.namespace,
           ttl: null,
           expiresAt: calculateExpiration(
@@ -236,7 +639,7 @@ export class Engram extends EngramEmitter {
           ),
           version: 1,
           history: [],
-          explanation: decision.explanation,
+          explanation,
         };
 
         // Step 7: Dry-run check
@@ -265,12 +668,17 @@ export class Engram extends EngramEmitter {
         this.emit("stored", approvedMemory);
 
         // Add to existing for subsequent candidates
-        existing.push(approvedMemory);
+        existing?.push(approvedMemory);
+        categoryCounts[approvedMemory.category] =
+          (categoryCounts[approvedMemory.category] ?? 0) + 1;
       }
 
       // Step 11: Check memory usage and emit warning if needed
-      if (result.stored.length > 0) {
-        const totalMemories = existing.length;
+      if (result.stored.length > 0 && categoryCounts) {
+        const totalMemories = Object.values(categoryCounts).reduce(
+          (sum, count) => sum + count,
+          0,
+        );
         const threshold80 = this.config.maxMemories * 0.8;
         const threshold90 = this.config.maxMemories * 0.9;
 
@@ -312,19 +720,24 @@ export class Engram extends EngramEmitter {
     let importance = options.importance ?? 0.7;
 
     if (!options.skipSurprise) {
-      const existing = await this.storeAdapter.list({
-        namespace: this.config.namespace,
-      });
       const category = options.category ?? "fact";
       const categoryBoost = this.config.importanceBoost[category] ?? 1.0;
+      const neighbors = await this.nearestExisting(content);
+      const comparison = neighbors ?? (await this.listScoped());
+      const categoryCounts = neighbors
+        ? await this.categoryCounts()
+        : countByCategory(comparison);
 
-      const decision = await scoreAndDecide(
+      const decision = await this.config.scorer.score(
         { content, category },
-        existing,
-        0, // No threshold check for manual store
-        categoryBoost,
-        this.config.embed,
-        options.explain,
+        {
+          existing: comparison,
+          categoryCount: categoryCounts[category] ?? 0,
+          categoryBoost,
+          threshold: 0, // No threshold check for manual store
+          embed: this.config.embed,
+          explain: options.explain ?? false,
+        },
       );
 
       surprise = decision.surprise;
@@ -343,7 +756,7 @@ export class Engram extends EngramEmitter {
       lastAccessed: now,
       createdAt: now,
       embedding: this.config.embed ? await this.config.embed(content) : null,
-      metadata: options.metadata ?? {},
+      metadata: this.withScopeMetadata(options.metadata),
       namespace: this.config.namespace,
       ttl: options.ttl ?? null,
       expiresAt: calculateExpiration(
@@ -379,51 +792,437 @@ export class Engram extends EngramEmitter {
   }
 
   /**
-   * recall() — Retrieve memories
+   * Embed texts up front with one embedBatch call
+   * The returned EmbedFunction serves them without another round trip and
+   * falls back to embed for other texts, or for all of them if the batch failed.
    */
-  async recall(query: string, options: RecallOptions = {}): Promise<Memory[]> {
-    // Step 1: Run beforeRecall hook
-    const processedQuery = await runBeforeRecall(query, this.config.hooks);
+  private async prefetchEmbeddings(
+    texts: string[],
+  ): Promise<EmbedFunction | undefined> {
+    const { embed, embedBatch } = this.config;
+    if (!embed || !embedBatch || texts.length < 2) return embed;
 
-    // Step 2: Retrieve
-    const memories = await retrieveMemories(
-      processedQuery,
-      this.storeAdapter,
-      this.config,
-      this.config.embed,
-      options,
+    let embeddings: number[][];
+    try {
+      embeddings = await embedBatch(texts);
+    } catch {
+      return embed;
+    }
+
+    const byText = new Map(texts.map((text, i) => [text, embeddings[i]]));
+    return async (text) => {
+      const embedding = byText.get(text);
+      return embedding ? [...embedding] : embed(text);
+    };
+  }
+
+  /**
+   * Narrow the scoring comparison set to a candidate's neighbourhood
+   * Returns the nearest neighbours plus best keyword matches when the store
+   * keeps an ANN index, or null to compare against every existing memory.
+   * Only these memories are loaded from the store.
+   */
+  private async nearestExisting(
+    content: string,
+    embed = this.config.embed,
+  ): Promise<Memory[] | null> {
+    if (!embed || !this.storeAdapter.nearest) {
+      return null;
+    }
+
+    let embedding: number[];
+    try {
+      embedding = await embed(content);
+    } catch {
+      return null;
+    }
+
+    const filter = this.ownSearchFilter();
+    const neighbors = await this.storeAdapter.nearest(
+      embedding,
+      this.config.annNeighbors,
+      filter,
+    );
+    if (!neighbors) {
+      return null;
+    }
+
+    // Keyword matches catch exact duplicates and high-Jaccard near misses
+    const byId = new Map(neighbors.map((n) => [n.memory.id, n.memory]));
+    const keywordResults = await this.storeAdapter.search(
+      content,
+      this.config.annNeighbors,
+      filter,
+    );
+    for (const memory of keywordResults) {
+      if (!byId.has(memory.id)) byId.set(memory.id, memory);
+    }
+
+    // Stores may not support metadata filters — enforce the scope here too
+    return [...byId.values()].filter((memory) => this.owns(memory));
+  }
+
+  /**
+   * Memories per category in this handle's own namespace and scope
+   */
+  private async categoryCounts(): Promise<Record<string, number>> {
+    if (!this.storeAdapter.countByCategory) {
+      return countByCategory(await this.listScoped());
+    }
+    return this.storeAdapter.countByCategory(this.ownSearchFilter());
+  }
+
+  /**
+   * Search filter for this handle's own namespace and scope metadata
+   */
+  private ownSearchFilter(): SearchFilter {
+    return {
+      namespace: this.config.namespace,
+      metadata: this.parent ? this.scopeFilter(undefined) : undefined,
+    };
+  }
+
+  /**
+   * update() — Edit a memory in place, keeping version history
+   */
+  async update(
+    id: string,
+    patch: UpdatePatch,
+    options: UpdateOptions = {},
+  ): Promise<Memory> {
+    const previous = await this.storeAdapter.get(id);
+    if (!previous || !this.owns(previous)) {
+      throw new EngramError(`Memory not found: ${id}`, "NOT_FOUND");
+    }
+
+    const updated = await this.applyUpdate(
+      previous,
+      patch,
+      "updated",
+      options.dryRun ?? false,
     );
+    if (!updated) {
+      throw new EngramError(
+        "Memory rejected by beforeStore hook",
+        "HOOK_REJECTED",
+      );
+    }
 
-    // Step 3: Run afterRecall hook
-    const filtered = await runAfterRecall(memories, this.config.hooks);
+    return updated;
+  }
 
-    // Step 4: Update access tracking (unless dry-run)
+  /**
+   * Apply a patch to an existing memory and persist it
+   * Returns null if the beforeStore hook rejects the new version
+   */
+  private async applyUpdate(
+    previous: Memory,
+    patch: UpdatePatch,
+    reason: MemoryVersion["reason"],
+    dryRun: boolean,
+  ): Promise<Memory | null> {
+    // Step 1: Apply patch to a copy (stores may hand out live references)
     const now = Date.now();
-    for (const memory of filtered) {
-      memory.accessCount++;
-      memory.lastAccessed = now;
-      await this.storeAdapter.put(memory);
+    const contentChanged =
+      patch.content !== undefined && patch.content !== previous.content;
+    const ttl = patch.ttl !== undefined ? patch.ttl : previous.ttl;
+
+    const memory: Memory = {
+      ...previous,
+      content: patch.content ?? previous.content,
+      category: patch.category ?? previous.category,
+      importance: patch.importance ?? previous.importance,
+      source: patch.source ?? previous.source,
+      metadata: this.withScopeMetadata({
+        ...previous.metadata,
+        ...patch.metadata,
+      }),
+      ttl,
+      expiresAt:
+        patch.ttl !== undefined
+          ? calculateExpiration({ ...previous, ttl }, this.config)
+          : previous.expiresAt,
+      version: previous.version + 1,
+      history: [...previous.history],
+    };
+
+    // Step 2: Re-embed and record history if content changed
+    if (contentChanged) {
+      memory.embedding = this.config.embed
+        ? await this.config.embed(memory.content)
+        : null;
+
+      if (this.config.trackHistory) {
+        memory.history.push({
+          content: previous.content,
+          timestamp: now,
+          reason,
+        });
+
+        // Trim history if needed
+        if (memory.history.length > this.config.maxHistoryPerMemory) {
+          memory.history = memory.history.slice(
+            -this.config.maxHistoryPerMemory,
+          );
+        }
+      }
     }
 
-    // Step 5: Emit event
-    this.emit("recalled", filtered, query);
+    // Step 3: Dry-run check
+    if (dryRun) {
+      return memory;
+    }
+
+    // Step 4: Run hooks
+    const approved = await runBeforeStore(memory, this.config.hooks);
+    if (!approved) {
+      return null;
+    }
+
+    // Step 5: Store
+    await this.storeAdapter.put(approved);
+
+    // Step 6: Emit events
+    await runAfterStore(approved, this.config.hooks);
+    this.emit("updated", approved, previous);
+
+    return approved;
+  }
+
+  /**
+   * recall() — Retrieve memories
+   */
+  async recall(query: string, options: RecallOptions = {}): Promise<Memory[]> {
+    return this.recallAs(query, options, "recall");
+  }
+
+  /**
+   * Shared body of recall() and context(); `via` decides access tracking
+   */
+  private async recallAs(
+    query: string,
+    options: RecallOptions,
+    via: "recall" | "context",
+  ): Promise<Memory[]> {
+    // Step 1: Retrieve scored results
+    const results = await this.retrieveScoped(query, options);
+
+    // Step 2: Run afterRecall hook
+    const filtered = await runAfterRecall(
+      results.map((result) => result.memory),
+      this.config.hooks,
+    );
+
+    // Step 3: Update access tracking, then emit event
+    await this.trackRecall(filtered, query, via);
+
+    return filtered;
+  }
+
+  /**
+   * recallWithScores() — Retrieve memories with the score behind each one
+   *
+   * Same ranking as recall(); the afterRecall hook may drop or reorder
+   * results, but memories it adds have no score and are left out.
+   */
+  async recallWithScores(
+    query: string,
+    options: RecallOptions = {},
+  ): Promise<RecallResult[]> {
+    // Step 1: Retrieve scored results
+    const results = await this.retrieveScoped(query, options);
+
+    // Step 2: Run afterRecall hook, keeping scores for the memories it returns
+    const hooked = await runAfterRecall(
+      results.map((result) => result.memory),
+      this.config.hooks,
+    );
+    const byId = new Map(results.map((result) => [result.memory.id, result]));
+    const filtered = hooked.flatMap((memory) => {
+      const result = byId.get(memory.id);
+      return result ? [{ ...result, memory }] : [];
+    });
+
+    // Step 3: Update access tracking, then emit event
+    await this.trackRecall(
+      filtered.map((result) => result.memory),
+      query,
+      "recall",
+    );
 
     return filtered;
   }
 
+  /**
+   * Retrieve for recall, falling back through inherited namespaces in order
+   */
+  private async retrieveScoped(
+    query: string,
+    options: RecallOptions,
+  ): Promise<RecallResult[]> {
+    if (options.expandQuery && !this.config.llm) {
+      throw new ConfigError("expandQuery requires an llm adapter");
+    }
+    const processedQuery = await runBeforeRecall(query, this.config.hooks);
+
+    this.assertNamespace(options.namespace, "read");
+    const k = options.k ?? this.config.defaultK;
+    const namespaces =
+      options.namespace !== undefined
+        ? [options.namespace]
+        : [this.config.namespace, ...this.inheritNamespaces];
+
+    const results: RecallResult[] = [];
+    for (const namespace of namespaces) {
+      if (results.length >= k) break;
+
+      const own = namespace === this.config.namespace;
+      const retrieved = await retrieveMemories(
+        processedQuery,
+        this.storeAdapter,
+        this.config,
+        this.config.embed,
+        {
+          ...options,
+          k: k - results.length,
+          namespace,
+          metadata:
+            own && this.parent
+              ? this.scopeFilter(options.metadata)
+              : options.metadata,
+        },
+      );
+
+      // A namespace list can mix the scope's own namespace with inherited ones
+      results.push(...retrieved.filter((r) => this.canRead(r.memory)));
+    }
+
+    return results;
+  }
+
+  /**
+   * Record access on recalled memories (if `via` counts) and emit "recalled"
+   */
+  private async trackRecall(
+    memories: Memory[],
+    query: string,
+    via: "recall" | "context",
+  ): Promise<void> {
+    const tracking = this.config.accessTracking;
+    if (tracking === "all" || tracking === via) {
+      const now = Date.now();
+      for (const memory of memories) {
+        memory.accessCount++;
+        memory.lastAccessed = now;
+      }
+      await this.accessTracker.record(
+        memories.map((memory) => memory.id),
+        now,
+      );
+    }
+
+    this.emit("recalled", memories, query);
+  }
+
+  /**
+   * flushAccess() — Write access counts buffered by accessFlushInterval
+   */
+  async flushAccess(): Promise<void> {
+    await this.accessTracker.flush();
+  }
+
   /**
    * context() — Format memories for system prompt injection (Phase 2)
+   * Pass the message history instead of a query to recall for the conversation.
    */
-  async context(query: string, options: ContextOptions = {}): Promise<string> {
-    // Step 1: Recall relevant memories
-    const memories = await this.recall(query, {
+  async context(
+    input: string | Message[],
+    options: ContextOptions = {},
+  ): Promise<string> {
+    const recallOptions: RecallOptions = {
       k: options.k,
       categories: options.categories,
+      namespace: options.namespace,
+      namespaceWeights: options.namespaceWeights,
+      diversity: options.diversity,
       explain: false, // Don't need explanations for context
-    });
+    };
+
+    // Step 1: Recall relevant memories
+    const memories =
+      typeof input === "string"
+        ? await this.recallAs(input, recallOptions, "context")
+        : await this.recallForConversation(input, recallOptions, options);
 
     // Step 2: Format for injection
-    return formatContext(memories, options);
+    const formatOptions = {
+      ...options,
+      tokenCounter: options.tokenCounter ?? this.config.tokenCounter,
+    };
+    if (options.overflow === "summarize" && this.config.llm) {
+      return formatContextWithSummary(memories, formatOptions, this.config.llm);
+    }
+    return formatContext(memories, formatOptions);
+  }
+
+  /**
+   * Recall for a message history: weighted queries from the recent turns,
+   * minus memories the assistant already referenced
+   */
+  private async recallForConversation(
+    messages: Message[],
+    recallOptions: RecallOptions,
+    options: ContextOptions,
+  ): Promise<Memory[]> {
+    const k = recallOptions.k ?? this.config.defaultK;
+    const turns = options.turns ?? 6;
+
+    // Step 1: Optionally let the LLM write the query
+    let rewritten: string | undefined;
+    if (options.rewriteQuery && this.config.llm) {
+      try {
+        rewritten = await rewriteContextQuery(
+          messages.slice(-turns),
+          this.config.llm,
+        );
+      } catch {
+        // Fall back to the heuristic queries
+      }
+    }
+
+    // Step 2: Retrieve for each query, over-fetching for the exclusions
+    const referenced =
+      options.excludeReferenced === false ? [] : assistantTokenSets(messages);
+    const combined = new Map<string, { memory: Memory; score: number }>();
+    for (const { query, weight } of conversationQueries(
+      messages,
+      turns,
+      rewritten,
+    )) {
+      const results = await this.retrieveScoped(query, {
+        ...recallOptions,
+        k: referenced.length > 0 ? k * 2 : k,
+      });
+      for (const { memory, score, rerankScore } of results) {
+        const entry = combined.get(memory.id) ?? { memory, score: 0 };
+        entry.score += weight * (rerankScore ?? score);
+        combined.set(memory.id, entry);
+      }
+    }
+
+    // Step 3: Drop memories already used, then take the top k
+    const ranked = [...combined.values()]
+      .filter((entry) => !isReferenced(entry.memory, referenced))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k)
+      .map((entry) => ({ ...entry.memory, retrievalScore: entry.score }));
+
+    // Step 4: Run afterRecall hook, then track access
+    const filtered = await runAfterRecall(ranked, this.config.hooks);
+    const lastUser = [...messages].reverse().find((m) => m.role === "user");
+    await this.trackRecall(filtered, lastUser?.content ?? "", "context");
+
+    return filtered;
   }
 
   /**
@@ -434,9 +1233,7 @@ export class Engram extends EngramEmitter {
     const dryRun = options.dryRun ?? false;
 
     // Step 1: Load all memories
-    const allMemories = await this.storeAdapter.list({
-      namespace: this.config.namespace,
-    });
+    const allMemories = await this.listScoped();
 
     // Step 2: Determine what to prune
     const toDelete: Memory[] = [];
@@ -492,6 +1289,89 @@ export class Engram extends EngramEmitter {
     };
   }
 
+  /**
+   * delete() — Delete specific memories by ID
+   */
+  async delete(
+    ids: string | string[],
+    options: DeleteOptions = {},
+  ): Promise<ForgetResult> {
+    const idList = Array.isArray(ids) ? ids : [ids];
+
+    // Step 1: Load the memories that exist
+    const memories: Memory[] = [];
+    for (const id of idList) {
+      const memory = await this.storeAdapter.get(id);
+      if (memory && this.owns(memory)) {
+        memories.push(memory);
+      }
+    }
+
+    // Step 2: Delete through the forget pipeline
+    return this.removeMemories(memories, options.dryRun ?? false);
+  }
+
+  /**
+   * forgetWhere() — Delete all memories matching a filter
+   * Defaults to the configured namespace unless the filter names one.
+   * A filter with no conditions besides the namespace needs { all: true }.
+   */
+  async forgetWhere(
+    filter: MemoryFilter,
+    options: DeleteOptions = {},
+  ): Promise<ForgetResult> {
+    this.assertNamespace(filter.namespace, "write");
+    if (!options.all && !hasConditions(filter)) {
+      throw new EngramError(
+        "forgetWhere() filter has no conditions; pass { all: true } to delete the whole namespace",
+        "EMPTY_FILTER",
+      );
+    }
+    const listed = await this.listScoped(filter);
+
+    // Re-check metadata so a store that ignores the filter can't widen the delete
+    const memories = listed.filter(
+      (m) => !filter.metadata || matchesMetadata(m.metadata, filter.metadata),
+    );
+
+    return this.removeMemories(memories, options.dryRun ?? false);
+  }
+
+  /**
+   * Run beforeForget hook, delete approved memories and emit event
+   */
+  private async removeMemories(
+    memories: Memory[],
+    dryRun: boolean,
+  ): Promise<ForgetResult> {
+    // Step 1: Run beforeForget hook
+    const approved = await runBeforeForget(memories, this.config.hooks);
+    const prunedIds = approved.map((m) => m.id);
+
+    // Step 2: Delete if not dry-run
+    if (!dryRun) {
+      if (prunedIds.length > 0) {
+        await this.storeAdapter.deleteMany(prunedIds);
+      }
+      this.emit("forgotten", prunedIds, prunedIds.length);
+    }
+
+    // Step 3: Summarize what is left in this namespace
+    const pruned = new Set(prunedIds);
+    const left = (await this.listScoped()).filter((m) => !pruned.has(m.id));
+
+    return {
+      pruned: approved.length,
+      remaining: left.length,
+      oldestMemory:
+        left.length > 0
+          ? Math.min(...left.map((m) => m.createdAt))
+          : Date.now(),
+      dryRun,
+      prunedIds,
+    };
+  }
+
   /**
    * merge() — Consolidate near-duplicate memories (Phase 2)
    */
@@ -501,9 +1381,7 @@ export class Engram extends EngramEmitter {
     const explain = options.explain ?? false;
 
     // Step 1: Load all memories
-    const allMemories = await this.storeAdapter.list({
-      namespace: this.config.namespace,
-    });
+    const allMemories = await this.listScoped();
 
     // Step 2: Group by category
     const byCategory: Record<string, Memory[]> = {};
@@ -520,11 +1398,34 @@ export class Engram extends EngramEmitter {
 
     for (const category of Object.keys(byCategory)) {
       const memories = byCategory[category];
+      const position = new Map(memories.map((m, index) => [m.id, index]));
 
       for (let i = 0; i < memories.length; i++) {
         if (toDelete.includes(memories[i].id)) continue;
 
-        for (let j = i + 1; j < memories.length; j++) {
+        // With an ANN-backed store, only compare against nearest neighbours
+        const neighbors =
+          memories[i].embedding && this.config.embed
+            ? await this.storeAdapter.nearest?.(
+                memories[i].embedding!,
+                this.config.annNeighbors,
+                {
+                  namespace: this.config.namespace,
+                  categories: [memories[i].category],
+                },
+              )
+            : null;
+        const partners = neighbors
+          ? neighbors
+              .map((n) => position.get(n.memory.id) ?? -1)
+              .filter((j) => j > i)
+              .sort((a, b) => a - b)
+          : Array.from(
+              { length: memories.length - i - 1 },
+              (_, offset) => i + 1 + offset,
+            );
+
+        for (const j of partners) {
           if (toDelete.includes(memories[j].id)) continue;
 
           // Compute similarity
@@ -618,9 +1519,7 @@ export class Engram extends EngramEmitter {
    * export() — Export memories to various formats
    */
   async export(format: "json" | "md" | "csv"): Promise<string> {
-    const memories = await this.storeAdapter.list({
-      namespace: this.config.namespace,
-    });
+    const memories = await this.listScoped();
 
     switch (format) {
       case "json":
@@ -649,6 +1548,7 @@ export class Engram extends EngramEmitter {
     format: "json" | "md",
     options: ImportOptions = {},
   ): Promise<number> {
+    this.assertNamespace(options.namespace, "write");
     let partial: Partial<Memory>[];
 
     // Parse based on format
@@ -679,7 +1579,7 @@ export class Engram extends EngramEmitter {
         lastAccessed: mem.lastAccessed ?? now,
         createdAt: mem.createdAt ?? now,
         embedding: null,
-        metadata: mem.metadata ?? {},
+        metadata: this.withScopeMetadata(mem.metadata),
         namespace: options.namespace ?? this.config.namespace,
         ttl: mem.ttl ?? null,
         expiresAt:
@@ -696,17 +1596,13 @@ export class Engram extends EngramEmitter {
       const existing = await this.storeAdapter.get(memory.id);
       if (existing) {
         if (options.onConflict === "skip") continue;
-        if (options.onConflict === "keep_both") {
+        // Never overwrite another tenant's memory from a scoped handle
+        if (options.onConflict === "keep_both" || !this.owns(existing)) {
           memory.id = randomUUID();
         }
         // 'overwrite' — just continue with the same ID
       }
 
-      // Recompute embeddings if available
-      if (this.config.embed) {
-        memory.embedding = await this.config.embed(memory.content);
-      }
-
       toImport.push(memory);
     }
 
@@ -715,6 +1611,16 @@ export class Engram extends EngramEmitter {
       return toImport.length;
     }
 
+    // Recompute embeddings if available, in batches
+    if (this.config.embedBatch) {
+      const embeddings = await this.config.embedBatch(
+        toImport.map((memory) => memory.content),
+      );
+      toImport.forEach((memory, i) => {
+        memory.embedding = embeddings[i];
+      });
+    }
+
     // Store all
     await this.storeAdapter.putMany(toImport);
 
@@ -730,7 +1636,9 @@ export class Engram extends EngramEmitter {
    * stats() — Get statistics
    */
   async stats(): Promise<EngramStats> {
-    const memories = await this.storeAdapter.list();
+    const memories = this.parent
+      ? await this.listScoped()
+      : await this.storeAdapter.list();
 
     const byCategory: Record<string, number> = {};
     const byNamespace: Record<string, number> = {};
@@ -767,6 +1675,7 @@ export class Engram extends EngramEmitter {
       hasEmbeddings: !!this.config.embed,
       hasLLM: !!this.config.llm,
       categories: this.config.categories,
+      embeddingCache: this.embeddingCache?.getStats(),
     };
   }
 
@@ -774,14 +1683,18 @@ export class Engram extends EngramEmitter {
    * get() — Get a memory by ID
    */
   async get(id: string): Promise<Memory | null> {
-    return this.storeAdapter.get(id);
+    const memory = await this.storeAdapter.get(id);
+    return memory && this.canRead(memory) ? memory : null;
   }
 
   /**
    * list() — List memories with filters
    */
   async list(filter?: RecallOptions): Promise<Memory[]> {
-    return this.storeAdapter.list(filter);
+    if (!this.parent) {
+      return this.storeAdapter.list(filter);
+    }
+    return this.listScoped(filter);
   }
 
   /**
@@ -867,3 +1780,11 @@ export * from "./errors.js";
 export { MemoryStore } from "./stores/memory.js";
 export { JsonFileStore } from "./stores/json-file.js";
 export { SqliteStore } from "./stores/sqlite.js";
+export { llmReranker, crossEncoderReranker } from "./reranker.js";
+export { surpriseScorer, densityScorer, llmScorer } from "./scorer.js";
+export { matchesMetadata } from "./metadata-filter.js";
+export { EmbeddingCache, JsonFileEmbeddingStorage } from "./embedding-cache.js";
+export { BpeTokenizer, GPT2_PATTERN, CL100K_PATTERN } from "./bpe.js";
+export type { BpeOptions } from "./bpe.js";
+export { HnswIndex } from "./ann/hnsw.js";
+export type { HnswConfig, HnswSnapshot } from "./ann/hnsw.js";
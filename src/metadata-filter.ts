@@ -0,0 +1,360 @@
+/**
+ * Metadata filters — one filter language for every store
+ *
+ * matchesMetadata() evaluates a filter in memory; metadataFilterToSql()
+ * translates the same filter to SQLite json_extract conditions. Both follow
+ * the same rules so every store returns the same memories:
+ * - a path that is missing only matches $exists: false, $ne and $nin
+ * - equality and ordering never coerce across types ("1" ≠ 1, true ≠ 1)
+ * - objects and arrays compare by their JSON (key order matters)
+ */
+
+import type { MetadataFilter } from "./types.js";
+import { FilterError } from "./errors.js";
+
+const FIELD_OPERATORS = new Set([
+  "$eq",
+  "$ne",
+  "$in",
+  "$nin",
+  "$gt",
+  "$gte",
+  "$lt",
+  "$lte",
+  "$exists",
+  "$contains",
+]);
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Whether a filter value is an operator object ({ $gt: 3 }) rather than a
+ * literal to compare against
+ */
+function isCondition(value: unknown): value is Record<string, any> {
+  if (!isPlainObject(value)) return false;
+
+  const keys = Object.keys(value);
+  if (keys.length === 0 || !keys.some((key) => key.startsWith("$"))) {
+    return false;
+  }
+  for (const key of keys) {
+    if (!FIELD_OPERATORS.has(key)) {
+      throw new FilterError(`unknown operator "${key}"`);
+    }
+  }
+  return true;
+}
+
+/**
+ * Validate the operand of an ordering operator
+ */
+function assertOrderable(operator: string, operand: unknown): void {
+  if (typeof operand !== "number" && typeof operand !== "string") {
+    throw new FilterError(`${operator} needs a number or string`);
+  }
+}
+
+/**
+ * Validate the operand of $in / $nin
+ */
+function assertList(
+  operator: string,
+  operand: unknown,
+): asserts operand is any[] {
+  if (!Array.isArray(operand)) {
+    throw new FilterError(`${operator} needs an array`);
+  }
+}
+
+/**
+ * Iterate a filter's top-level clauses, rejecting misplaced operators
+ */
+function clauses(filter: MetadataFilter): [string, any][] {
+  if (!isPlainObject(filter)) {
+    throw new FilterError("filter must be an object");
+  }
+
+  const entries = Object.entries(filter).filter(
+    ([, value]) => value !== undefined,
+  );
+  for (const [key, value] of entries) {
+    if ((key === "$and" || key === "$or") && !Array.isArray(value)) {
+      throw new FilterError(`${key} needs an array of filters`);
+    }
+    if (key.startsWith("$") && !["$and", "$or", "$not"].includes(key)) {
+      throw new FilterError(`unknown operator "${key}" at the top level`);
+    }
+  }
+  return entries;
+}
+
+// ── In-memory evaluation ──
+
+/**
+ * Read a dotted path from metadata (undefined when any step is missing)
+ */
+function readPath(metadata: Record<string, any>, path: string): unknown {
+  let current: unknown = metadata;
+  for (const segment of path.split(".")) {
+    if (!isPlainObject(current) || !Object.hasOwn(current, segment)) {
+      return undefined;
+    }
+    current = current[segment];
+  }
+  return current;
+}
+
+/**
+ * Strict equality without type coercion; objects and arrays compare by JSON
+ */
+function valueEquals(actual: unknown, expected: unknown): boolean {
+  if (actual === undefined) return false;
+  if (typeof expected === "object" && expected !== null) {
+    return (
+      typeof actual === "object" &&
+      actual !== null &&
+      JSON.stringify(actual) === JSON.stringify(expected)
+    );
+  }
+  return actual === expected;
+}
+
+/**
+ * Ordering comparison between values of the same primitive type
+ */
+function compare(actual: unknown, operand: number | string): number | null {
+  if (typeof actual !== typeof operand) return null;
+  const a = actual as number | string;
+  return a < operand ? -1 : a > operand ? 1 : 0;
+}
+
+function matchesCondition(
+  actual: unknown,
+  condition: Record<string, any>,
+): boolean {
+  return Object.entries(condition).every(([operator, operand]) => {
+    switch (operator) {
+      case "$eq":
+        return valueEquals(actual, operand);
+      case "$ne":
+        return !valueEquals(actual, operand);
+      case "$in":
+        assertList(operator, operand);
+        return operand.some((value) => valueEquals(actual, value));
+      case "$nin":
+        assertList(operator, operand);
+        return !operand.some((value) => valueEquals(actual, value));
+      case "$gt":
+      case "$gte":
+      case "$lt":
+      case "$lte": {
+        assertOrderable(operator, operand);
+        const order = compare(actual, operand);
+        if (order === null) return false;
+        if (operator === "$gt") return order > 0;
+        if (operator === "$gte") return order >= 0;
+        if (operator === "$lt") return order < 0;
+        return order <= 0;
+      }
+      case "$exists":
+        return (actual !== undefined) === Boolean(operand);
+      case "$contains":
+        if (Array.isArray(actual)) {
+          return actual.some((value) => valueEquals(value, operand));
+        }
+        return (
+          typeof actual === "string" &&
+          typeof operand === "string" &&
+          actual.includes(operand)
+        );
+      default:
+        return false;
+    }
+  });
+}
+
+/**
+ * Whether memory metadata satisfies a filter
+ */
+export function matchesMetadata(
+  metadata: Record<string, any>,
+  filter: MetadataFilter,
+): boolean {
+  return clauses(filter).every(([key, value]) => {
+    if (key === "$and") {
+      return value.every((sub: MetadataFilter) =>
+        matchesMetadata(metadata, sub),
+      );
+    }
+    if (key === "$or") {
+      return value.some((sub: MetadataFilter) =>
+        matchesMetadata(metadata, sub),
+      );
+    }
+    if (key === "$not") {
+      return !matchesMetadata(metadata, value);
+    }
+
+    const actual = readPath(metadata, key);
+    return isCondition(value)
+      ? matchesCondition(actual, value)
+      : valueEquals(actual, value);
+  });
+}
+
+// ── SQL translation (SQLite JSON1) ──
+
+interface SqlFragment {
+  sql: string;
+  params: any[];
+}
+
+/**
+ * JSON path literal for a dotted metadata path, each key quoted ($."a"."b")
+ */
+function jsonPathLiteral(path: string): string {
+  const jsonPath =
+    "$" +
+    path
+      .split(".")
+      .map((segment) => `."${segment.replace(/"/g, '\\"')}"`)
+      .join("");
+  return `'${jsonPath.replace(/'/g, "''")}'`;
+}
+
+/**
+ * SQL equality on a JSON value given its json_type and extracted value
+ */
+function sqlEquals(
+  type: string,
+  value: string,
+  expected: unknown,
+  params: any[],
+): string {
+  if (expected === null) {
+    return `${type} = 'null'`;
+  }
+  if (typeof expected === "boolean") {
+    return `${type} = '${expected}'`;
+  }
+  if (typeof expected === "number") {
+    params.push(expected);
+    return `(${type} IN ('integer', 'real') AND ${value} = ?)`;
+  }
+  if (typeof expected === "string") {
+    params.push(expected);
+    return `(${type} = 'text' AND ${value} = ?)`;
+  }
+  if (typeof expected === "object") {
+    params.push(JSON.stringify(expected));
+    return `(${type} IN ('object', 'array') AND ${value} = json(?))`;
+  }
+  throw new FilterError(`cannot compare against ${typeof expected}`);
+}
+
+/**
+ * SQL for one field condition; always evaluates to 0 or 1, never NULL
+ * Params are pushed in the order their placeholders appear.
+ */
+function fieldToSql(
+  column: string,
+  path: string,
+  condition: Record<string, any>,
+): SqlFragment {
+  const params: any[] = [];
+  const pathLiteral = jsonPathLiteral(path);
+  const type = `json_type(${column}, ${pathLiteral})`;
+  const value = `json_extract(${column}, ${pathLiteral})`;
+  const equals = (expected: unknown) =>
+    `IFNULL(${sqlEquals(type, value, expected, params)}, 0)`;
+
+  const parts = Object.entries(condition).map(([operator, operand]) => {
+    switch (operator) {
+      case "$eq":
+        return equals(operand);
+      case "$ne":
+        return `NOT ${equals(operand)}`;
+      case "$in":
+      case "$nin": {
+        assertList(operator, operand);
+        const any = operand.length ? operand.map(equals).join(" OR ") : "0";
+        return operator === "$in" ? `(${any})` : `NOT (${any})`;
+      }
+      case "$gt":
+      case "$gte":
+      case "$lt":
+      case "$lte": {
+        assertOrderable(operator, operand);
+        const sqlOperator = { $gt: ">", $gte: ">=", $lt: "<", $lte: "<=" }[
+          operator
+        ];
+        const types =
+          typeof operand === "number" ? "('integer', 'real')" : "('text')";
+        params.push(operand);
+        return `(${type} IN ${types} AND ${value} ${sqlOperator} ?)`;
+      }
+      case "$exists":
+        return operand ? `${type} IS NOT NULL` : `${type} IS NULL`;
+      case "$contains": {
+        const element = sqlEquals("je.type", "je.value", operand, params);
+        let sql = `(${type} = 'array' AND EXISTS (SELECT 1 FROM json_each(${column}, ${pathLiteral}) je WHERE ${element}))`;
+        if (typeof operand === "string") {
+          params.push(operand);
+          sql = `(${sql} OR (${type} = 'text' AND instr(${value}, ?) > 0))`;
+        }
+        return sql;
+      }
+      default:
+        throw new FilterError(`unknown operator "${operator}"`);
+    }
+  });
+
+  return {
+    sql: parts.map((part) => `IFNULL(${part}, 0)`).join(" AND "),
+    params,
+  };
+}
+
+/**
+ * Translate a metadata filter to a SQLite condition over a JSON column
+ */
+export function metadataFilterToSql(
+  filter: MetadataFilter,
+  column = "metadata",
+): SqlFragment {
+  const params: any[] = [];
+
+  const parts = clauses(filter).map(([key, value]) => {
+    let fragment: SqlFragment;
+    if (key === "$and" || key === "$or") {
+      const subs = (value as MetadataFilter[]).map((sub) =>
+        metadataFilterToSql(sub, column),
+      );
+      const joiner = key === "$and" ? " AND " : " OR ";
+      fragment = {
+        sql: subs.length
+          ? subs.map((sub) => `(${sub.sql})`).join(joiner)
+          : key === "$and"
+            ? "1"
+            : "0",
+        params: subs.flatMap((sub) => sub.params),
+      };
+    } else if (key === "$not") {
+      const sub = metadataFilterToSql(value, column);
+      fragment = { sql: `NOT (${sub.sql})`, params: sub.params };
+    } else {
+      fragment = fieldToSql(
+        column,
+        key,
+        isCondition(value) ? value : { $eq: value },
+      );
+    }
+
+    params.push(...fragment.params);
+    return `(${fragment.sql})`;
+  });
+
+  return { sql: parts.length ? parts.join(" AND ") : "1", params };
+}
@@ -0,0 +1,26 @@
+/**
+ * Conflict classification prompt for contradiction detection
+ */
+
+/**
+ * Build the prompt asking how a new statement relates to an existing memory
+ */
+export function buildConflictPrompt(
+  existing: string,
+  candidate: string,
+): string {
+  return `You are a memory consistency checker. Compare an EXISTING memory with a NEW statement about the same topic.
+
+Classify the NEW statement as exactly one of:
+- "duplicate": says the same thing as the existing memory
+- "refinement": adds detail to the existing memory without contradicting it
+- "contradiction": says something that makes the existing memory no longer true
+
+Return ONLY a JSON object like this — no other text:
+{"relation": "contradiction"}
+
+EXISTING: ${existing}
+NEW: ${candidate}
+
+JSON object:`;
+}
@@ -0,0 +1,25 @@
+/**
+ * Retrieval query prompt for conversation-aware context
+ */
+
+import type { Message } from "../types.js";
+
+/**
+ * Build the prompt asking for a search query that covers the conversation
+ */
+export function buildContextQueryPrompt(messages: Message[]): string {
+  const conversationText = messages
+    .map((m) => `${m.role}: ${m.content}`)
+    .join("\n");
+
+  return `You are a search assistant for a memory store of short facts, preferences and how-tos about the user and their projects. Write ONE search query that finds the memories needed to answer the LAST user message.
+
+Resolve pronouns and references ("it", "that error") using earlier turns. Use specific nouns and names, not filler.
+
+Return ONLY the query on a single line — no quotes, no explanation.
+
+CONVERSATION:
+${conversationText}
+
+QUERY:`;
+}
@@ -0,0 +1,29 @@
+/**
+ * Query expansion prompt for multi-query recall
+ */
+
+/**
+ * Build the prompt asking for paraphrases (and optionally a hypothetical answer)
+ */
+export function buildExpandQueryPrompt(
+  query: string,
+  paraphrases: number,
+  hyde: boolean,
+): string {
+  const hypothetical = hyde
+    ? `
+Also write "hypothetical": one sentence that a stored memory answering the query might contain. Guess concrete details if needed.
+`
+    : "";
+
+  return `You are a search assistant for a memory store of short facts, preferences and how-tos. Rewrite the QUERY so it matches how memories are phrased.
+
+Write ${paraphrases} paraphrases of the query. Use different words: synonyms, expanded abbreviations, the full question behind a terse query.
+${hypothetical}
+Return ONLY a JSON object like this — no other text:
+{"paraphrases": ["how do we deploy to production", "deployment steps"]${hyde ? ', "hypothetical": "Deploy by running pnpm build then vercel --prod"' : ""}}
+
+QUERY: ${query}
+
+JSON object:`;
+}
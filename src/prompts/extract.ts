@@ -15,12 +15,21 @@ const CATEGORY_DESCRIPTIONS: Record<string, string> = {
   context: 'environment/setup info ("Working on a React Native mobile app")',
 };
 
+export interface ExtractionPromptOptions {
+  importance?: boolean; // also ask for a 1–5 importance rating and rationale
+}
+
+const IMPORTANCE_FIELDS = `
+- "importance": an integer from 1 (trivial) to 5 (critical to remember later)
+- "rationale": a few words on why it matters`;
+
 /**
  * Build the extraction prompt with dynamic categories
  */
 export function buildExtractionPrompt(
   messages: Message[],
   categories: string[],
+  options: ExtractionPromptOptions = {},
 ): string {
   const categoryList = categories
     .map((c) => {
@@ -35,9 +44,9 @@ export function buildExtractionPrompt(
 
   return `You are a memory extraction engine. Analyze the conversation below and extract discrete, memorable facts.
 
-Return ONLY a valid JSON array. Each item must have exactly two fields:
+Return ONLY a valid JSON array. Each item must have exactly ${options.importance ? "four" : "two"} fields:
 - "content": a single atomic fact written as one clear statement
-- "category": exactly one of ${JSON.stringify(categories)}
+- "category": exactly one of ${JSON.stringify(categories)}${options.importance ? IMPORTANCE_FIELDS : ""}
 
 Category definitions:
 ${categoryList}
@@ -61,15 +70,21 @@ JSON array:`;
 /**
  * Build retry prompt when first extraction fails
  */
-export function buildRetryPrompt(messages: Message[]): string {
+export function buildRetryPrompt(
+  messages: Message[],
+  options: ExtractionPromptOptions = {},
+): string {
   const conversationText = messages
     .map((m) => `${m.role}: ${m.content}`)
     .join("\n");
+  const example = options.importance
+    ? '[{"content": "fact here", "category": "fact", "importance": 3, "rationale": "why it matters"}]'
+    : '[{"content": "fact here", "category": "fact"}]';
 
   return `Your previous response was not valid JSON. Please try again.
 
 Return ONLY a JSON array like this — no other text:
-[{"content": "fact here", "category": "fact"}]
+${example}
 
 If nothing worth remembering, return exactly: []
 
@@ -0,0 +1,32 @@
+/**
+ * Novelty judgement prompt for the LLM scorer
+ */
+
+/**
+ * Build the prompt asking how much a candidate adds beyond similar memories
+ */
+export function buildNoveltyPrompt(
+  candidate: string,
+  similar: string[],
+): string {
+  const similarText = similar.length
+    ? similar.map((content) => `- ${content}`).join("\n")
+    : "(none)";
+
+  return `You are the gatekeeper of a long-term memory store. Judge how much NEW information a candidate memory adds beyond the SIMILAR memories already stored.
+
+Score "novelty" from 0 to 1:
+- 0: already stored, only reworded
+- 0.5: mostly known, adds a small detail
+- 1: entirely new information
+
+Return ONLY a JSON object like this — no other text:
+{"novelty": 0.7, "reason": "adds the deploy command"}
+
+SIMILAR:
+${similarText}
+
+CANDIDATE: ${candidate}
+
+JSON object:`;
+}
@@ -0,0 +1,24 @@
+/**
+ * Overflow summary prompt for token-budgeted context
+ */
+
+import type { Memory } from "../types.js";
+
+/**
+ * Build the prompt asking for one line that covers memories cut by the budget
+ */
+export function buildOverflowSummaryPrompt(
+  memories: Memory[],
+  maxWords: number,
+): string {
+  const memoriesText = memories.map((m) => `- ${m.content}`).join("\n");
+
+  return `These memories did not fit in an assistant's context window. Compress them into ONE line of at most ${maxWords} words, keeping names, numbers and decisions. Drop anything that is only filler.
+
+Return ONLY the line — no bullet, no quotes, no explanation.
+
+MEMORIES:
+${memoriesText}
+
+LINE:`;
+}
@@ -0,0 +1,26 @@
+/**
+ * Relevance scoring prompt for LLM reranking
+ */
+
+/**
+ * Build the prompt asking for a relevance score per candidate memory
+ */
+export function buildRerankPrompt(query: string, candidates: string[]): string {
+  const numbered = candidates
+    .map((content, index) => `${index + 1}. ${content}`)
+    .join("\n");
+
+  return `You are a relevance judge for a memory search. Rate how useful each memory is for answering the QUERY.
+
+Score each memory from 0 (irrelevant) to 10 (directly answers the query).
+
+Return ONLY a JSON array of numbers, one per memory, in the same order — no other text:
+[7, 0, 3]
+
+QUERY: ${query}
+
+MEMORIES:
+${numbered}
+
+JSON array:`;
+}
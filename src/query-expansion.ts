@@ -0,0 +1,74 @@
+/**
+ * Query expansion — LLM paraphrases and hypothetical answers for recall
+ */
+
+import type { LLMFunction, QueryExpansionOptions } from "./types.js";
+import { buildExpandQueryPrompt } from "./prompts/expand.js";
+
+export interface QueryExpansion {
+  paraphrases: string[];
+  hypothetical?: string; // HyDE: an answer-shaped text to search with
+}
+
+/**
+ * Parse query expansions from LLM
+ * Expects {"paraphrases": [...], "hypothetical"?: "..."}
+ */
+function parseQueryExpansion(raw: string): QueryExpansion | null {
+  const cleaned = raw
+    .replace(/```json?\n?/g, "")
+    .replace(/```\n?/g, "")
+    .trim();
+  const match = cleaned.match(/\{[\s\S]*\}/);
+  if (!match) return null;
+
+  try {
+    const parsed = JSON.parse(match[0]);
+    if (!Array.isArray(parsed?.paraphrases)) return null;
+
+    return {
+      paraphrases: parsed.paraphrases.filter(
+        (p: unknown): p is string => typeof p === "string" && p.trim() !== "",
+      ),
+      hypothetical:
+        typeof parsed.hypothetical === "string" && parsed.hypothetical.trim()
+          ? parsed.hypothetical
+          : undefined,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Ask the LLM for alternative phrasings of a recall query
+ * Paraphrases that repeat the query are dropped; throws if the response
+ * cannot be parsed, so recall falls back to the original query.
+ */
+export async function expandQuery(
+  query: string,
+  llm: LLMFunction,
+  options: QueryExpansionOptions = {},
+): Promise<QueryExpansion> {
+  const count = options.paraphrases ?? 3;
+  const hyde = options.hyde ?? false;
+
+  const response = await llm(buildExpandQueryPrompt(query, count, hyde));
+  const expansion = parseQueryExpansion(response);
+  if (!expansion) {
+    throw new Error("Could not parse query expansions");
+  }
+
+  const seen = new Set([query.trim().toLowerCase()]);
+  const paraphrases = expansion.paraphrases.filter((p) => {
+    const key = p.trim().toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  return {
+    paraphrases: paraphrases.slice(0, count),
+    hypothetical: hyde ? expansion.hypothetical : undefined,
+  };
+}
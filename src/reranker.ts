@@ -0,0 +1,67 @@
+/**
+ * Rerankers — rescore retrieval candidates against the query
+ */
+
+import type { Memory, LLMFunction, RerankFunction } from "./types.js";
+import { buildRerankPrompt } from "./prompts/rerank.js";
+
+/**
+ * Parse rerank scores from LLM
+ * Expects a JSON array of 0-10 numbers, one per candidate
+ */
+function parseRerankScores(raw: string, count: number): number[] | null {
+  const cleaned = raw
+    .replace(/```json?\n?/g, "")
+    .replace(/```\n?/g, "")
+    .trim();
+  const match = cleaned.match(/\[[\s\S]*?\]/);
+  if (!match) return null;
+
+  try {
+    const parsed = JSON.parse(match[0]);
+    if (
+      !Array.isArray(parsed) ||
+      parsed.length !== count ||
+      !parsed.every((score) => typeof score === "number")
+    ) {
+      return null;
+    }
+    return parsed.map((score: number) => Math.min(Math.max(score, 0), 10) / 10);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Rerank with the LLM — one call scores every candidate
+ * Throws if the response cannot be parsed, so recall keeps its own ranking.
+ */
+export function llmReranker(llm: LLMFunction): RerankFunction {
+  return async (query: string, candidates: Memory[]): Promise<number[]> => {
+    if (candidates.length === 0) return [];
+
+    const response = await llm(
+      buildRerankPrompt(
+        query,
+        candidates.map((memory) => memory.content),
+      ),
+    );
+    const scores = parseRerankScores(response, candidates.length);
+    if (!scores) {
+      throw new Error("Could not parse rerank scores");
+    }
+    return scores;
+  };
+}
+
+/**
+ * Rerank with a local cross-encoder (or any query/document scorer)
+ * The scorer sees each (query, content) pair, e.g. a transformers.js
+ * cross-encoder; scores are used as-is.
+ */
+export function crossEncoderReranker(
+  score: (query: string, document: string) => number | Promise<number>,
+): RerankFunction {
+  return async (query: string, candidates: Memory[]): Promise<number[]> =>
+    Promise.all(candidates.map((memory) => score(query, memory.content)));
+}
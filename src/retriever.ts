@@ -8,20 +8,77 @@ import type {
   EmbedFunction,
   RecallOptions,
   EngramConfig,
+  SearchFilter,
+  HybridMode,
+  RecallResult,
+  ScoreComponents,
 } from "./types.js";
-import { jaccardSimilarity, cosineSimilarity } from "./similarity.js";
+import {
+  jaccardSimilarity,
+  jaccardSimilarityTokens,
+  cosineSimilarity,
+} from "./similarity.js";
+import { tokenCache } from "./tokenizer.js";
+import { matchesMetadata } from "./metadata-filter.js";
 import { decayedImportance } from "./decay.js";
 import { explainRetrievalScore } from "./explainer.js";
+import { expandQuery, type QueryExpansion } from "./query-expansion.js";
+
+// Reciprocal rank fusion constant (Cormack et al.)
+const RRF_K = 60;
 
 /**
- * Compute retrieval score for a memory
+ * 1-based positions of a candidate in the vector and keyword result lists
  */
-function computeRetrievalScore(
+interface CandidateRanks {
+  vector?: number;
+  keyword?: number;
+}
+
+/**
+ * Relevance: how well does this match the query?
+ * Hybrid modes blend the vector and keyword signals (alpha = vector share).
+ */
+function computeRelevance(
   memory: Memory,
   query: string,
   queryEmbedding: number[] | undefined,
-  config: EngramConfig,
+  ranks: CandidateRanks,
+  hybrid: HybridMode,
+  alpha: number,
 ): number {
+  if (!queryEmbedding || hybrid === "off") {
+    return queryEmbedding && memory.embedding
+      ? cosineSimilarity(queryEmbedding, memory.embedding)
+      : jaccardSimilarity(query, memory.content);
+  }
+
+  if (hybrid === "rrf") {
+    const vector = ranks.vector ? 1 / (RRF_K + ranks.vector) : 0;
+    const keyword = ranks.keyword ? 1 / (RRF_K + ranks.keyword) : 0;
+    // Scale so ranking first in both lists scores 1.0
+    return (alpha * vector + (1 - alpha) * keyword) * (RRF_K + 1);
+  }
+
+  const keyword = jaccardSimilarity(query, memory.content);
+  if (!memory.embedding) {
+    return keyword;
+  }
+  return (
+    alpha * cosineSimilarity(queryEmbedding, memory.embedding) +
+    (1 - alpha) * keyword
+  );
+}
+
+/**
+ * Compute retrieval score for a memory, with the components it blends
+ */
+function computeRetrievalScore(
+  memory: Memory,
+  relevance: number,
+  config: EngramConfig,
+  namespaceWeights: Record<string, number> = {},
+): { score: number; components: ScoreComponents } {
   // Get configurable weights (with defaults)
   const weights = {
     relevance: config.retrievalWeights?.relevance ?? 0.5,
@@ -30,15 +87,6 @@ function computeRetrievalScore(
     accessFrequency: config.retrievalWeights?.accessFrequency ?? 0.0,
   };
 
-  // Relevance: how well does this match the query?
-  let relevance = 0;
-
-  if (queryEmbedding && memory.embedding) {
-    relevance = cosineSimilarity(queryEmbedding, memory.embedding);
-  } else {
-    relevance = jaccardSimilarity(query, memory.content);
-  }
-
   // Importance: with decay and access boost
   const importance = decayedImportance(memory, config);
 
@@ -49,13 +97,78 @@ function computeRetrievalScore(
   // Access frequency: normalize to 0-1 range (assume max 100 accesses is "high")
   const accessFrequency = Math.min(memory.accessCount / 100, 1.0);
 
-  // Weighted combination
-  return (
-    weights.relevance * relevance +
-    weights.importance * importance +
-    weights.recency * recency +
-    weights.accessFrequency * accessFrequency
-  );
+  // Weighted combination, scaled by the namespace multiplier
+  const namespaceWeight = namespaceWeights[memory.namespace] ?? 1.0;
+  const score =
+    namespaceWeight *
+    (weights.relevance * relevance +
+      weights.importance * importance +
+      weights.recency * recency +
+      weights.accessFrequency * accessFrequency);
+
+  return {
+    score,
+    components: { relevance, importance, recency, accessFrequency },
+  };
+}
+
+/**
+ * Which search surfaced a candidate — the one that ranked it higher
+ * Unranked candidates came from keyword results padding.
+ */
+function matchedVia(ranks: CandidateRanks): "vector" | "keyword" {
+  if (ranks.vector === undefined) return "keyword";
+  if (ranks.keyword === undefined) return "vector";
+  return ranks.vector <= ranks.keyword ? "vector" : "keyword";
+}
+
+/**
+ * Similarity between two memories for diversity
+ * Embeddings when both have them, cached Jaccard tokens otherwise
+ */
+function memorySimilarity(a: Memory, b: Memory): number {
+  if (a.embedding && b.embedding && a.embedding.length === b.embedding.length) {
+    return cosineSimilarity(a.embedding, b.embedding);
+  }
+  return jaccardSimilarityTokens(tokenCache.get(a), tokenCache.get(b));
+}
+
+/**
+ * Select k items by maximal marginal relevance
+ * Each pick maximizes (1 - diversity) × rank score − diversity × max similarity
+ * to the items already picked, so near-paraphrases don't fill every slot.
+ */
+function selectDiverse<T extends { memory: Memory; rankScore: number }>(
+  ranked: T[],
+  k: number,
+  diversity: number,
+): T[] {
+  const remaining = [...ranked];
+  const selected: T[] = [];
+
+  while (selected.length < k && remaining.length > 0) {
+    let bestIndex = 0;
+    let bestValue = -Infinity;
+
+    remaining.forEach((item, index) => {
+      let redundancy = 0;
+      for (const picked of selected) {
+        redundancy = Math.max(
+          redundancy,
+          memorySimilarity(item.memory, picked.memory),
+        );
+      }
+      const value = (1 - diversity) * item.rankScore - diversity * redundancy;
+      if (value > bestValue) {
+        bestValue = value;
+        bestIndex = index;
+      }
+    });
+
+    selected.push(remaining.splice(bestIndex, 1)[0]);
+  }
+
+  return selected;
 }
 
 /**
@@ -72,23 +185,152 @@ function applyFilters(memories: Memory[], options: RecallOptions): Memory[] {
     filtered = filtered.filter((m) => m.createdAt >= options.since!);
   }
 
+  if (options.until !== undefined) {
+    filtered = filtered.filter((m) => m.createdAt <= options.until!);
+  }
+
   if (options.namespace !== undefined) {
-    filtered = filtered.filter((m) => m.namespace === options.namespace);
+    const namespaces = Array.isArray(options.namespace)
+      ? options.namespace
+      : [options.namespace];
+    filtered = filtered.filter((m) => namespaces.includes(m.namespace));
   }
 
   if (options.metadata) {
-    filtered = filtered.filter((m) => {
-      return Object.entries(options.metadata!).every(
-        ([key, value]) => m.metadata[key] === value,
-      );
-    });
+    filtered = filtered.filter((m) =>
+      matchesMetadata(m.metadata, options.metadata!),
+    );
   }
 
   return filtered;
 }
 
 /**
- * Retrieve and rank memories
+ * A candidate with its relevance to one query
+ */
+interface Candidate {
+  memory: Memory;
+  relevance: number;
+  ranks: CandidateRanks;
+  queryRanks?: (number | undefined)[]; // relevance rank per query when expanded
+}
+
+/**
+ * Gather candidates for one query and compute their relevance
+ */
+async function gatherCandidates(
+  query: string,
+  queryEmbedding: number[] | undefined,
+  store: StoreAdapter,
+  config: EngramConfig,
+  options: RecallOptions,
+  k: number,
+): Promise<Candidate[]> {
+  const hybrid = options.hybrid ?? config.hybrid ?? "off";
+  const alpha = options.hybridAlpha ?? config.hybridAlpha ?? 0.5;
+
+  // Over-fetch k * 3 per namespace
+  // Namespace and categories are pushed down so the over-fetch isn't
+  // spent on memories the filters would drop
+  const candidates: Memory[] = [];
+  // Map doubles as O(n) deduplication instead of O(n²) array.some()
+  const ranks = new Map<string, CandidateRanks>();
+  const addCandidates = (memories: Memory[], list?: keyof CandidateRanks) => {
+    memories.forEach((memory, index) => {
+      let entry = ranks.get(memory.id);
+      if (!entry) {
+        entry = {};
+        ranks.set(memory.id, entry);
+        candidates.push(memory);
+      }
+      if (list) {
+        entry[list] ??= index + 1;
+      }
+    });
+  };
+
+  const namespace = options.namespace ?? config.namespace ?? "default";
+  for (const ns of Array.isArray(namespace) ? namespace : [namespace]) {
+    const searchFilter: SearchFilter = {
+      namespace: ns,
+      categories: options.categories,
+      metadata: options.metadata,
+    };
+
+    // Try vector search if available and embeddings work
+    if (queryEmbedding && store.vectorSearch) {
+      try {
+        addCandidates(
+          await store.vectorSearch(queryEmbedding, k * 3, searchFilter),
+          "vector",
+        );
+      } catch {
+        // Fall back to keyword search
+      }
+    }
+
+    // Always do keyword search and merge results
+    // Stores may pad keyword results with non-matches — they get no rank
+    const keywordResults = await store.search(query, k * 3, searchFilter);
+    addCandidates(
+      keywordResults.filter((m) => jaccardSimilarity(query, m.content) > 0),
+      "keyword",
+    );
+    addCandidates(keywordResults);
+  }
+
+  return applyFilters(candidates, options).map((memory) => ({
+    memory,
+    relevance: computeRelevance(
+      memory,
+      query,
+      queryEmbedding,
+      ranks.get(memory.id)!,
+      hybrid,
+      alpha,
+    ),
+    ranks: ranks.get(memory.id)!,
+  }));
+}
+
+/**
+ * Fuse per-query relevance with reciprocal rank fusion
+ * Each query ranks its candidates by relevance (non-matches get no rank);
+ * fused relevance is scaled so ranking first for every query scores 1.0.
+ */
+function fuseCandidates(perQuery: Candidate[][]): Candidate[] {
+  const fused = new Map<string, Candidate>();
+
+  perQuery.forEach((candidates, queryIndex) => {
+    const ranked = candidates
+      .filter((c) => c.relevance > 0)
+      .sort((a, b) => b.relevance - a.relevance);
+    const rankOf = new Map(ranked.map((c, index) => [c.memory.id, index + 1]));
+
+    for (const candidate of candidates) {
+      let entry = fused.get(candidate.memory.id);
+      if (!entry) {
+        entry = {
+          ...candidate,
+          relevance: 0,
+          queryRanks: new Array(perQuery.length).fill(undefined),
+        };
+        fused.set(candidate.memory.id, entry);
+      }
+
+      const rank = rankOf.get(candidate.memory.id);
+      entry.queryRanks![queryIndex] = rank;
+      if (rank) {
+        entry.relevance += (RRF_K + 1) / (RRF_K + rank) / perQuery.length;
+      }
+    }
+  });
+
+  return [...fused.values()];
+}
+
+/**
+ * Retrieve and rank memories, with the score behind each result
  */
 export async function retrieveMemories(
   query: string,
@@ -96,96 +338,177 @@ export async function retrieveMemories(
   config: EngramConfig,
   embedFn?: EmbedFunction,
   options: RecallOptions = {},
-): Promise<Memory[]> {
+): Promise<RecallResult[]> {
   const k = options.k ?? config.defaultK ?? 5;
+  const hybrid = options.hybrid ?? config.hybrid ?? "off";
+  const alpha = options.hybridAlpha ?? config.hybridAlpha ?? 0.5;
 
-  // Step 1: Generate query embedding if available
-  let queryEmbedding: number[] | undefined;
-  if (embedFn) {
+  const embedQuery = async (text: string): Promise<number[] | undefined> => {
+    if (!embedFn) return undefined;
     try {
-      queryEmbedding = await embedFn(query);
+      return await embedFn(text);
     } catch {
       // Fall back to keyword search if embedding fails
-      queryEmbedding = undefined;
+      return undefined;
     }
-  }
+  };
 
-  // Step 2: Candidate generation (over-fetch k * 3)
-  let candidates: Memory[] = [];
+  // Step 1: Generate query embedding if available
+  const queryEmbedding = await embedQuery(query);
 
-  // Try vector search if available and embeddings work
-  if (queryEmbedding && store.vectorSearch) {
+  // Step 2: Expand the query (optional) into paraphrases and a
+  // hypothetical answer, searched alongside the original
+  const expandOptions = options.expandQuery ?? config.expandQuery ?? false;
+  let expansion: QueryExpansion | undefined;
+  if (expandOptions && config.llm) {
     try {
-      const vectorResults = await store.vectorSearch(queryEmbedding, k * 3);
-      candidates.push(...vectorResults);
+      expansion = await expandQuery(
+        query,
+        config.llm,
+        expandOptions === true ? {} : expandOptions,
+      );
     } catch {
-      // Fall back to keyword search
+      // Expansion is best-effort — recall with the original query alone
     }
   }
 
-  // Always do keyword search and merge results
-  // Use Set for O(n) deduplication instead of O(n²) array.some()
-  const seenIds = new Set(candidates.map((c) => c.id));
-  const keywordResults = await store.search(query, k * 3);
-  for (const result of keywordResults) {
-    if (!seenIds.has(result.id)) {
-      candidates.push(result);
-      seenIds.add(result.id);
-    }
+  // Step 3: Gather candidates for each query variant
+  const perQuery = [
+    await gatherCandidates(query, queryEmbedding, store, config, options, k),
+  ];
+  const variants = expansion
+    ? [
+        ...expansion.paraphrases,
+        ...(expansion.hypothetical ? [expansion.hypothetical] : []),
+      ]
+    : [];
+  for (const variant of variants) {
+    perQuery.push(
+      await gatherCandidates(
+        variant,
+        await embedQuery(variant),
+        store,
+        config,
+        options,
+        k,
+      ),
+    );
   }
-
-  // Step 3: Apply filters
-  candidates = applyFilters(candidates, options);
+  const candidates =
+    perQuery.length > 1 ? fuseCandidates(perQuery) : perQuery[0];
 
   // Step 4: Score and rank
-  const scored = candidates.map((memory) => {
-    const score = computeRetrievalScore(memory, query, queryEmbedding, config);
-    return { memory, score };
-  });
+  const scored: (Candidate & {
+    score: number;
+    components: ScoreComponents;
+    rerankScore?: number;
+  })[] = candidates.map((candidate) => ({
+    ...candidate,
+    ...computeRetrievalScore(
+      candidate.memory,
+      candidate.relevance,
+      config,
+      options.namespaceWeights,
+    ),
+  }));
 
   scored.sort((a, b) => b.score - a.score);
 
-  // Step 5: Apply minImportance filter
+  // Step 5: Apply minImportance and minScore filters
   let filtered = scored;
   if (options.minImportance !== undefined) {
-    filtered = scored.filter((item) => {
+    filtered = filtered.filter((item) => {
       const decayed = decayedImportance(item.memory, config);
       return decayed >= options.minImportance!;
     });
   }
+  if (options.minScore !== undefined) {
+    filtered = filtered.filter((item) => item.score >= options.minScore!);
+  }
 
-  // Step 6: Take top k
-  const topK = filtered.slice(0, k);
+  // Step 6: Rerank (optional) before the top-k cut
+  let ranked = filtered;
+  if (typeof config.rerank === "function" && filtered.length > 0) {
+    try {
+      const rerankScores = await config.rerank(
+        query,
+        filtered.map((item) => item.memory),
+      );
+      if (rerankScores.length === filtered.length) {
+        ranked = filtered
+          .map((item, index) => ({
+            ...item,
+            rerankScore:
+              rerankScores[index] *
+              (options.namespaceWeights?.[item.memory.namespace] ?? 1.0),
+          }))
+          .sort((a, b) => b.rerankScore - a.rerankScore || b.score - a.score);
+      }
+    } catch {
+      // Reranking is best-effort — keep the blended ranking
+    }
+  }
 
-  // Step 7: Add explanations if requested
-  const results = topK.map(({ memory, score }) => {
-    const enriched = { ...memory };
+  // Step 7: Take top k (MMR re-selection when diversity is requested)
+  const diversity = Math.min(Math.max(options.diversity ?? 0, 0), 1);
+  const topK =
+    diversity > 0
+      ? selectDiverse(
+          ranked.map((item) => ({
+            ...item,
+            rankScore: item.rerankScore ?? item.score,
+          })),
+          k,
+          diversity,
+        )
+      : ranked.slice(0, k);
 
-    // Add decayed importance
-    enriched.decayedImportance = decayedImportance(memory, config);
+  // Step 8: Build results, with explanations if requested
+  return topK.map(
+    ({ memory, score, components, ranks, queryRanks, rerankScore }) => {
+      const enriched = { ...memory };
 
-    // Add explanation if requested
-    if (options.explain) {
-      const relevance =
-        queryEmbedding && memory.embedding
-          ? cosineSimilarity(queryEmbedding, memory.embedding)
-          : jaccardSimilarity(query, memory.content);
+      // Add decayed importance and the final ranking score, for token budgeting
+      enriched.decayedImportance = decayedImportance(memory, config);
+      enriched.retrievalScore = rerankScore ?? score;
 
-      const ageDays = (Date.now() - memory.createdAt) / (1000 * 60 * 60 * 24);
-      const recency = 1.0 / (1.0 + ageDays / 30);
+      // Add explanation if requested
+      if (options.explain) {
+        enriched.explanation = explainRetrievalScore(
+          memory,
+          components,
+          score,
+          config,
+          {
+            namespaceWeight: options.namespaceWeights?.[memory.namespace],
+            rerankScore,
+            hybrid:
+              queryEmbedding && hybrid !== "off"
+                ? {
+                    mode: hybrid,
+                    alpha,
+                    vectorRank: ranks.vector,
+                    keywordRank: ranks.keyword,
+                  }
+                : undefined,
+            expansion:
+              expansion && queryRanks
+                ? { ...expansion, queryRanks }
+                : undefined,
+          },
+        );
+      }
 
-      enriched.explanation = explainRetrievalScore(
-        memory,
-        relevance,
-        enriched.decayedImportance,
-        recency,
+      const result: RecallResult = {
+        memory: enriched,
         score,
-        config,
-      );
-    }
-
-    return enriched;
-  });
-
-  return results;
+        components,
+        matchedVia: matchedVia(ranks),
+      };
+      if (rerankScore !== undefined) {
+        result.rerankScore = rerankScore;
+      }
+      return result;
+    },
+  );
 }
@@ -6,11 +6,33 @@ import type {
   Memory,
   MemoryCandidate,
   EmbedFunction,
+  LLMFunction,
   SurpriseResult,
+  SurpriseWeights,
+  ConflictRelation,
+  Scorer,
+  ScorerContext,
+  ScoreResult,
 } from "./types.js";
 import { tokenize, tokenCache } from "./tokenizer.js";
 import { cosineSimilarity, jaccardSimilarityTokens } from "./similarity.js";
-import { explainSurprise, explainStoreDecision } from "./explainer.js";
+import {
+  explainSurprise,
+  explainStoreDecision,
+  explainImportanceBlend,
+} from "./explainer.js";
+import { buildConflictPrompt } from "./prompts/conflict.js";
+import { buildNoveltyPrompt } from "./prompts/novelty.js";
+import { ConfigError } from "./errors.js";
+
+const DEFAULT_WEIGHTS = { semantic: 0.6, keyword: 0.3, rarity: 0.1 };
+const DEFAULT_KEYWORD_WEIGHTS = { keyword: 0.8, rarity: 0.2 };
+
+const CONFLICT_RELATIONS: ConflictRelation[] = [
+  "duplicate",
+  "refinement",
+  "contradiction",
+];
 
 /**
  * Check for exact duplicate (fast path)
@@ -75,14 +97,35 @@ function keywordNovelty(
 function categoryRarity(
   candidate: MemoryCandidate,
   existing: Memory[],
+  categoryCount?: number,
 ): number {
-  const countInCategory = existing.filter(
-    (m) => m.category === candidate.category,
-  ).length;
+  const countInCategory =
+    categoryCount ??
+    existing.filter((m) => m.category === candidate.category).length;
   return 1.0 / Math.log2(2 + countInCategory);
   // 0 existing → 1.0, 1 → 0.63, 10 → 0.29, 100 → 0.15
 }
 
+/**
+ * Similarity of the candidate to each existing memory
+ * Cosine when both have embeddings, Jaccard over cached tokens otherwise
+ */
+function similarities(
+  candidate: MemoryCandidate,
+  existing: Memory[],
+  candidateEmbedding?: number[],
+): { memory: Memory; similarity: number }[] {
+  const candidateTokens = tokenize(candidate.content);
+
+  return existing.map((mem) => ({
+    memory: mem,
+    similarity:
+      candidateEmbedding && mem.embedding
+        ? cosineSimilarity(candidateEmbedding, mem.embedding)
+        : jaccardSimilarityTokens(candidateTokens, tokenCache.get(mem)),
+  }));
+}
+
 /**
  * Find the most similar existing memory
  * Uses token cache for Memory objects to avoid re-tokenization
@@ -92,45 +135,143 @@ function findMostSimilar(
   existing: Memory[],
   candidateEmbedding?: number[],
 ): { memory: Memory; similarity: number } | null {
-  if (existing.length === 0) return null;
+  let best: { memory: Memory; similarity: number } | null = null;
+  for (const match of similarities(candidate, existing, candidateEmbedding)) {
+    if (match.similarity > (best?.similarity ?? 0)) best = match;
+  }
+  return best;
+}
 
-  let maxSimilarity = 0;
-  let mostSimilar: Memory | null = null;
+/**
+ * The k existing memories most similar to the candidate, most similar first
+ */
+function nearestNeighbours(
+  candidate: MemoryCandidate,
+  existing: Memory[],
+  k: number,
+  candidateEmbedding?: number[],
+): { memory: Memory; similarity: number }[] {
+  return similarities(candidate, existing, candidateEmbedding)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, k);
+}
 
-  const candidateTokens = tokenize(candidate.content);
+/**
+ * Embed the candidate, or undefined when there is no embedder or it fails
+ */
+async function embedCandidate(
+  candidate: MemoryCandidate,
+  embedFn?: EmbedFunction,
+): Promise<number[] | undefined> {
+  if (!embedFn) return undefined;
+  try {
+    return await embedFn(candidate.content);
+  } catch {
+    return undefined;
+  }
+}
 
-  for (const mem of existing) {
-    let similarity = 0;
-
-    if (candidateEmbedding && mem.embedding) {
-      // Use cosine similarity if embeddings available
-      similarity = cosineSimilarity(candidateEmbedding, mem.embedding);
-    } else {
-      // Fall back to Jaccard with cached tokens
-      const memTokens = tokenCache.get(mem);
-      similarity = jaccardSimilarityTokens(candidateTokens, memTokens);
-    }
+/**
+ * Surprise component weights for the mode in use, normalized to sum to 1
+ */
+export function resolveSurpriseWeights(
+  weights: SurpriseWeights = {},
+  hasEmbeddings: boolean,
+): { semantic: number; keyword: number; rarity: number } {
+  const raw = hasEmbeddings
+    ? {
+        semantic: weights.semantic ?? DEFAULT_WEIGHTS.semantic,
+        keyword: weights.keyword ?? DEFAULT_WEIGHTS.keyword,
+        rarity: weights.rarity ?? DEFAULT_WEIGHTS.rarity,
+      }
+    : {
+        semantic: 0,
+        keyword:
+          weights.withoutEmbeddings?.keyword ?? DEFAULT_KEYWORD_WEIGHTS.keyword,
+        rarity:
+          weights.withoutEmbeddings?.rarity ?? DEFAULT_KEYWORD_WEIGHTS.rarity,
+      };
+
+  const total = raw.semantic + raw.keyword + raw.rarity;
+  return {
+    semantic: raw.semantic / total,
+    keyword: raw.keyword / total,
+    rarity: raw.rarity / total,
+  };
+}
 
-    if (similarity > maxSimilarity) {
-      maxSimilarity = similarity;
-      mostSimilar = mem;
-    }
+/**
+ * Surprise threshold for a candidate: per source, then per category, then global
+ * `scope` names the override that applied, for explanations.
+ */
+export function resolveSurpriseThreshold(
+  config: {
+    surpriseThreshold: number;
+    categoryThresholds: Record<string, number>;
+    sourceThresholds: Record<string, number>;
+  },
+  category: string,
+  source?: string,
+): { threshold: number; scope?: string } {
+  if (source !== undefined && config.sourceThresholds[source] !== undefined) {
+    return {
+      threshold: config.sourceThresholds[source],
+      scope: `source "${source}"`,
+    };
+  }
+  if (config.categoryThresholds[category] !== undefined) {
+    return {
+      threshold: config.categoryThresholds[category],
+      scope: `category "${category}"`,
+    };
+  }
+  return { threshold: config.surpriseThreshold };
+}
+
+/**
+ * Blend the extraction LLM's 1–5 rating into a scored importance
+ * The rating maps 1 → 0 and 5 → 1. The scored importance (surprise × category
+ * boost, which can exceed 1) is capped at 1 first so both sides share a 0–1
+ * scale. Without a rating or weight the score stands.
+ */
+export function blendImportance(
+  candidate: MemoryCandidate,
+  importance: number,
+  weight: number,
+): { importance: number; explanation?: string } {
+  if (weight <= 0 || candidate.importance === undefined) {
+    return { importance };
   }
 
-  return mostSimilar
-    ? { memory: mostSimilar, similarity: maxSimilarity }
-    : null;
+  const scored = Math.min(1, Math.max(0, importance));
+  const rated = (candidate.importance - 1) / 4;
+  const blended = (1 - weight) * scored + weight * rated;
+  return {
+    importance: blended,
+    explanation: explainImportanceBlend(
+      scored,
+      candidate.importance,
+      weight,
+      blended,
+      candidate.rationale,
+    ),
+  };
 }
 
 /**
  * Compute surprise score for a memory candidate
  * This is the core algorithm that determines if a memory is novel enough to store
+ *
+ * `existing` may be just the candidate's nearest neighbours (ANN-backed stores);
+ * pass `categoryCount` then so rarity still reflects the whole category.
  */
 export async function computeSurprise(
   candidate: MemoryCandidate,
   existing: Memory[],
   embedFn?: EmbedFunction,
   explain = false,
+  categoryCount?: number,
+  weights?: SurpriseWeights,
 ): Promise<SurpriseResult> {
   // Step 0: Fast path for exact duplicates
   if (isExactDuplicate(candidate, existing)) {
@@ -161,27 +302,21 @@ export async function computeSurprise(
   const keyword = keywordNovelty(candidate, existing);
 
   // Step 3: Compute category rarity
-  const rarity = categoryRarity(candidate, existing);
-
-  // Step 4: Combine scores
-  let surprise: number;
-  let explanationText: string;
-
-  if (semantic !== null) {
-    // With embeddings: 60% semantic, 30% keyword, 10% rarity
-    surprise = 0.6 * semantic + 0.3 * keyword + 0.1 * rarity;
-    explanationText = explainSurprise(
-      surprise,
-      semantic,
-      keyword,
-      rarity,
-      true,
-    );
-  } else {
-    // Without embeddings: 80% keyword, 20% rarity
-    surprise = 0.8 * keyword + 0.2 * rarity;
-    explanationText = explainSurprise(surprise, null, keyword, rarity, false);
-  }
+  const rarity = categoryRarity(candidate, existing, categoryCount);
+
+  // Step 4: Combine scores (default 60% semantic, 30% keyword, 10% rarity;
+  // 80% keyword, 20% rarity without embeddings)
+  const w = resolveSurpriseWeights(weights, semantic !== null);
+  const surprise =
+    w.semantic * (semantic ?? 0) + w.keyword * keyword + w.rarity * rarity;
+  const explanationText = explainSurprise(
+    surprise,
+    semantic,
+    keyword,
+    rarity,
+    semantic !== null,
+    w,
+  );
 
   // Step 5: Find closest existing memory if explaining
   let closestExisting: Memory | undefined;
@@ -210,6 +345,8 @@ export async function scoreAndDecide(
   categoryBoost: number,
   embedFn?: EmbedFunction,
   explain = false,
+  categoryCount?: number,
+  scoring: { weights?: SurpriseWeights; thresholdScope?: string } = {},
 ): Promise<{
   surprise: number;
   importance: number;
@@ -218,7 +355,14 @@ export async function scoreAndDecide(
   explanation?: string;
   closestExisting?: Memory;
 }> {
-  const result = await computeSurprise(candidate, existing, embedFn, explain);
+  const result = await computeSurprise(
+    candidate,
+    existing,
+    embedFn,
+    explain,
+    categoryCount,
+    scoring.weights,
+  );
 
   const importance = result.surprise * categoryBoost;
   const stored = result.surprise >= threshold;
@@ -247,6 +391,7 @@ export async function scoreAndDecide(
         categoryBoost,
         stored,
         closestSim,
+        scoring.thresholdScope,
       );
   }
 
@@ -259,3 +404,253 @@ export async function scoreAndDecide(
     closestExisting: result.closestExisting,
   };
 }
+
+/**
+ * Result for a candidate that repeats an existing memory word for word
+ */
+function duplicateResult(context: ScorerContext): ScoreResult {
+  return {
+    surprise: 0,
+    importance: 0,
+    stored: false,
+    reason: "duplicate_content",
+    explanation: context.explain ? "exact duplicate detected" : undefined,
+  };
+}
+
+/**
+ * Finish a score: apply the category boost and the threshold
+ */
+function decide(
+  surprise: number,
+  context: ScorerContext,
+  explanation: string,
+  closest?: { memory: Memory; similarity: number },
+): ScoreResult {
+  const importance = surprise * context.categoryBoost;
+  const stored = surprise >= context.threshold;
+
+  return {
+    surprise,
+    importance,
+    stored,
+    reason: stored ? undefined : "below_threshold",
+    explanation: context.explain
+      ? explanation +
+        "\n  " +
+        explainStoreDecision(
+          surprise,
+          importance,
+          context.threshold,
+          context.categoryBoost,
+          stored,
+          closest?.similarity,
+          context.thresholdScope,
+        )
+      : undefined,
+    closestExisting: context.explain ? closest?.memory : undefined,
+  };
+}
+
+/**
+ * Default scorer — semantic, keyword and category-rarity novelty against
+ * the single most similar memory (see computeSurprise)
+ */
+export function surpriseScorer(
+  options: { weights?: SurpriseWeights } = {},
+): Scorer {
+  return {
+    score: (candidate, context) =>
+      scoreAndDecide(
+        candidate,
+        context.existing,
+        context.threshold,
+        context.categoryBoost,
+        context.embed,
+        context.explain,
+        context.categoryCount,
+        { weights: options.weights, thresholdScope: context.thresholdScope },
+      ),
+  };
+}
+
+/**
+ * Density scorer — novelty against the k nearest memories rather than the
+ * single closest one, so a candidate in a crowded topic scores lower than
+ * one with a single near match. Missing neighbours count as dissimilar.
+ */
+export function densityScorer(options: { k?: number } = {}): Scorer {
+  const k = options.k ?? 5;
+  if (!Number.isInteger(k) || k < 1) {
+    throw new ConfigError("densityScorer k must be a positive integer");
+  }
+
+  return {
+    async score(candidate, context) {
+      if (isExactDuplicate(candidate, context.existing)) {
+        return duplicateResult(context);
+      }
+
+      const embedding = await embedCandidate(candidate, context.embed);
+      const nearest = nearestNeighbours(
+        candidate,
+        context.existing,
+        k,
+        embedding,
+      );
+      const density =
+        nearest.reduce((sum, match) => sum + Math.max(0, match.similarity), 0) /
+        k;
+      const surprise = 1 - density;
+
+      return decide(
+        surprise,
+        context,
+        `surprise: ${surprise.toFixed(3)} (1 - mean similarity ${density.toFixed(3)} of ${k} nearest)`,
+        nearest[0],
+      );
+    },
+  };
+}
+
+/**
+ * Parse a novelty judgement from the LLM
+ */
+function parseNovelty(raw: string): { novelty: number; reason: string } | null {
+  const cleaned = raw
+    .replace(/```json?\n?/g, "")
+    .replace(/```\n?/g, "")
+    .trim();
+  const match = cleaned.match(/\{[\s\S]*\}/);
+  if (!match) return null;
+
+  try {
+    const parsed = JSON.parse(match[0]);
+    if (typeof parsed?.novelty !== "number" || Number.isNaN(parsed.novelty)) {
+      return null;
+    }
+    return {
+      novelty: Math.min(Math.max(parsed.novelty, 0), 1),
+      reason: typeof parsed.reason === "string" ? parsed.reason : "",
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * LLM scorer — the LLM judges novelty against the most similar memories
+ * Falls back to another scorer (default: surpriseScorer()) when the call
+ * fails or the answer cannot be parsed.
+ */
+export function llmScorer(
+  llm: LLMFunction,
+  options: { neighbors?: number; fallback?: Scorer } = {},
+): Scorer {
+  const neighbors = options.neighbors ?? 5;
+  const fallback = options.fallback ?? surpriseScorer();
+
+  return {
+    async score(candidate, context) {
+      if (isExactDuplicate(candidate, context.existing)) {
+        return duplicateResult(context);
+      }
+
+      const embedding = await embedCandidate(candidate, context.embed);
+      const nearest = nearestNeighbours(
+        candidate,
+        context.existing,
+        neighbors,
+        embedding,
+      ).filter((match) => match.similarity > 0);
+
+      let judgement: { novelty: number; reason: string } | null = null;
+      try {
+        judgement = parseNovelty(
+          await llm(
+            buildNoveltyPrompt(
+              candidate.content,
+              nearest.map((match) => match.memory.content),
+            ),
+          ),
+        );
+      } catch {
+        judgement = null;
+      }
+      if (!judgement) return fallback.score(candidate, context);
+
+      const reason = judgement.reason ? `: ${judgement.reason}` : "";
+      return decide(
+        judgement.novelty,
+        context,
+        `surprise: ${judgement.novelty.toFixed(3)} (LLM-judged against ${nearest.length} similar${reason})`,
+        nearest[0],
+      );
+    },
+  };
+}
+
+/**
+ * Parse conflict classification from LLM
+ * Accepts a JSON object or a bare relation word
+ */
+function parseConflictRelation(raw: string): ConflictRelation | null {
+  const cleaned = raw
+    .replace(/```json?\n?/g, "")
+    .replace(/```\n?/g, "")
+    .trim();
+
+  try {
+    const parsed = JSON.parse(cleaned);
+    if (CONFLICT_RELATIONS.includes(parsed?.relation)) {
+      return parsed.relation;
+    }
+  } catch {
+    // Fall through to keyword match
+  }
+
+  const lower = cleaned.toLowerCase();
+  return (
+    CONFLICT_RELATIONS.find((relation) => lower.includes(relation)) ?? null
+  );
+}
+
+/**
+ * Detect whether a candidate duplicates, refines or contradicts an existing memory
+ * Only the most similar memory in the same category is checked, and only
+ * when its similarity reaches the threshold. Returns null when there is no
+ * close match or the LLM answer cannot be parsed.
+ */
+export async function detectConflict(
+  candidate: MemoryCandidate,
+  existing: Memory[],
+  llm: LLMFunction,
+  similarityThreshold: number,
+  embedFn?: EmbedFunction,
+): Promise<{
+  relation: ConflictRelation;
+  memory: Memory;
+  similarity: number;
+} | null> {
+  if (isExactDuplicate(candidate, existing)) return null;
+
+  const sameCategory = existing.filter(
+    (m) => m.category === candidate.category,
+  );
+  if (sameCategory.length === 0) return null;
+
+  const candidateEmbedding = await embedCandidate(candidate, embedFn);
+  const closest = findMostSimilar(candidate, sameCategory, candidateEmbedding);
+  if (!closest || closest.similarity < similarityThreshold) return null;
+
+  try {
+    const response = await llm(
+      buildConflictPrompt(closest.memory.content, candidate.content),
+    );
+    const relation = parseConflictRelation(response);
+    return relation ? { relation, ...closest } : null;
+  } catch {
+    // Classification is best-effort — fall back to novelty scoring
+    return null;
+  }
+}
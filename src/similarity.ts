@@ -2,6 +2,7 @@
  * Similarity functions for scoring and retrieval
  */
 
+import type { Memory } from "./types.js";
 import { tokenize } from "./tokenizer.js";
 
 /**
@@ -89,3 +90,28 @@ export function normalize(vector: number[]): number[] {
   if (norm === 0) return vector;
   return vector.map((val) => val / norm);
 }
+
+/**
+ * Brute-force top-k memories by cosine similarity to an embedding
+ * Memories without an embedding (or with a different dimension) are skipped
+ */
+export function topKByCosine(
+  embedding: number[],
+  memories: Iterable<Memory>,
+  k: number,
+): Memory[] {
+  const scored: { memory: Memory; score: number }[] = [];
+
+  for (const memory of memories) {
+    if (!memory.embedding || memory.embedding.length !== embedding.length) {
+      continue;
+    }
+    scored.push({
+      memory,
+      score: cosineSimilarity(embedding, memory.embedding),
+    });
+  }
+
+  scored.sort((a, b) => b.score - a.score);
+  return scored.slice(0, k).map((item) => item.memory);
+}
@@ -7,13 +7,34 @@
 import { readFile, writeFile, mkdir, rename, unlink } from "fs/promises";
 import { existsSync } from "fs";
 import { dirname } from "path";
-import type { Memory, MemoryFilter, StoreAdapter } from "../types.js";
+import type {
+  Memory,
+  MemoryFilter,
+  MemoryNeighbor,
+  SearchFilter,
+  StoreAdapter,
+} from "../types.js";
 import { StoreError } from "../errors.js";
 import { MemoryStore } from "./memory.js";
+import type { HnswConfig } from "../ann/hnsw.js";
+import type { VectorIndexSnapshot } from "../ann/vector-index.js";
 
 interface JsonFileData {
   version: string;
   memories: Memory[];
+  vectorIndex?: VectorIndexSnapshot;
+}
+
+/**
+ * JSON file store configuration
+ */
+export interface JsonFileStoreConfig {
+  /**
+   * Maintain an HNSW index for vectorSearch() and nearest()
+   * The index graph is saved in the same file as the memories.
+   * @default false (brute-force cosine scan)
+   */
+  vectorIndex?: boolean | HnswConfig;
 }
 
 export class JsonFileStore implements StoreAdapter {
@@ -23,9 +44,9 @@ export class JsonFileStore implements StoreAdapter {
   private loaded = false;
   private dirty = false;
 
-  constructor(filePath = "./engram.json") {
+  constructor(filePath = "./engram.json", config: JsonFileStoreConfig = {}) {
     this.filePath = filePath;
-    this.memoryStore = new MemoryStore();
+    this.memoryStore = new MemoryStore({ vectorIndex: config.vectorIndex });
   }
 
   /**
@@ -46,6 +67,10 @@ export class JsonFileStore implements StoreAdapter {
 
       // Load all memories into memory store
       await this.memoryStore.putMany(data.memories);
+      if (data.vectorIndex) {
+        // Stale snapshots are ignored and rebuilt on first search
+        this.memoryStore.importVectorIndex(data.vectorIndex);
+      }
       this.loaded = true;
     } catch (error) {
       // Try to recover from corrupted file
@@ -84,6 +109,7 @@ export class JsonFileStore implements StoreAdapter {
       const data: JsonFileData = {
         version: "0.1.0",
         memories,
+        vectorIndex: this.memoryStore.exportVectorIndex() ?? undefined,
       };
 
       // Atomic write: write to temp file, then rename
@@ -136,9 +162,31 @@ export class JsonFileStore implements StoreAdapter {
     return this.memoryStore.list(filter);
   }
 
-  async search(query: string, k: number): Promise<Memory[]> {
+  async search(
+    query: string,
+    k: number,
+    filter?: SearchFilter,
+  ): Promise<Memory[]> {
     await this.load();
-    return this.memoryStore.search(query, k);
+    return this.memoryStore.search(query, k, filter);
+  }
+
+  async vectorSearch(
+    embedding: number[],
+    k: number,
+    filter?: SearchFilter,
+  ): Promise<Memory[]> {
+    await this.load();
+    return this.memoryStore.vectorSearch(embedding, k, filter);
+  }
+
+  async nearest(
+    embedding: number[],
+    k: number,
+    filter?: SearchFilter,
+  ): Promise<MemoryNeighbor[] | null> {
+    await this.load();
+    return this.memoryStore.nearest(embedding, k, filter);
   }
 
   async putMany(memories: Memory[]): Promise<void> {
@@ -155,11 +203,25 @@ export class JsonFileStore implements StoreAdapter {
     await this.persist();
   }
 
+  async touch(ids: string[], timestamp: number): Promise<void> {
+    await this.load();
+    await this.memoryStore.touch(ids, timestamp);
+    this.dirty = true;
+    await this.persist();
+  }
+
   async count(namespace?: string): Promise<number> {
     await this.load();
     return this.memoryStore.count(namespace);
   }
 
+  async countByCategory(
+    filter: SearchFilter = {},
+  ): Promise<Record<string, number>> {
+    await this.load();
+    return this.memoryStore.countByCategory(filter);
+  }
+
   async prune(before: number): Promise<number> {
     await this.load();
     const pruned = await this.memoryStore.prune(before);
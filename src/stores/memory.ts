@@ -3,13 +3,88 @@
  * No persistence — great for testing and ephemeral agents
  */
 
-import type { Memory, MemoryFilter, StoreAdapter } from "../types.js";
+import type {
+  Memory,
+  MemoryFilter,
+  MemoryNeighbor,
+  SearchFilter,
+  StoreAdapter,
+} from "../types.js";
 import { tokenize, tokenCache } from "../tokenizer.js";
-import { jaccardSimilarityTokens } from "../similarity.js";
+import { jaccardSimilarityTokens, topKByCosine } from "../similarity.js";
+import { matchesMetadata } from "../metadata-filter.js";
+import type { HnswConfig } from "../ann/hnsw.js";
+import { VectorIndex } from "../ann/vector-index.js";
+import type { VectorIndexSnapshot } from "../ann/vector-index.js";
+
+/**
+ * In-memory store configuration
+ */
+export interface MemoryStoreConfig {
+  /**
+   * Maintain an HNSW index for vectorSearch() and nearest()
+   * @default false (brute-force cosine scan)
+   */
+  vectorIndex?: boolean | HnswConfig;
+}
 
 export class MemoryStore implements StoreAdapter {
   readonly name = "MemoryStore";
   private memories: Map<string, Memory> = new Map();
+  private indexConfig: HnswConfig | null;
+  private vectorIndex: VectorIndex | null = null; // built on first search
+
+  constructor(config: MemoryStoreConfig = {}) {
+    this.indexConfig =
+      config.vectorIndex === true ? {} : config.vectorIndex || null;
+  }
+
+  /**
+   * Get the vector index, building it from all memories on first use
+   */
+  private getVectorIndex(): VectorIndex {
+    if (!this.vectorIndex) {
+      this.vectorIndex = new VectorIndex(this.indexConfig ?? {});
+      for (const memory of this.memories.values()) {
+        this.vectorIndex.upsert(memory.id, memory.namespace, memory.embedding);
+      }
+    }
+    return this.vectorIndex;
+  }
+
+  /**
+   * Serialize the vector index (null if it has not been built)
+   */
+  exportVectorIndex(): VectorIndexSnapshot | null {
+    return this.vectorIndex?.toJSON() ?? null;
+  }
+
+  /**
+   * Restore a serialized vector index
+   * Returns false (and rebuilds lazily later) if it no longer matches the memories
+   */
+  importVectorIndex(snapshot: VectorIndexSnapshot): boolean {
+    if (!this.indexConfig) return false;
+
+    const vectors = new Map<
+      string,
+      { namespace: string; embedding: number[] }
+    >();
+    for (const memory of this.memories.values()) {
+      if (memory.embedding) {
+        vectors.set(memory.id, {
+          namespace: memory.namespace,
+          embedding: memory.embedding,
+        });
+      }
+    }
+
+    const restored = VectorIndex.fromJSON(snapshot, vectors, this.indexConfig);
+    if (!restored) return false;
+
+    this.vectorIndex = restored;
+    return true;
+  }
 
   async get(id: string): Promise<Memory | null> {
     return this.memories.get(id) ?? null;
@@ -17,10 +92,12 @@ export class MemoryStore implements StoreAdapter {
 
   async put(memory: Memory): Promise<void> {
     this.memories.set(memory.id, memory);
+    this.vectorIndex?.upsert(memory.id, memory.namespace, memory.embedding);
   }
 
   async delete(id: string): Promise<void> {
     this.memories.delete(id);
+    this.vectorIndex?.remove(id);
   }
 
   async has(id: string): Promise<boolean> {
@@ -47,6 +124,14 @@ export class MemoryStore implements StoreAdapter {
       results = results.filter((m) => filter.categories!.includes(m.category));
     }
 
+    // Apply source filter
+    if (filter.source) {
+      const sources = Array.isArray(filter.source)
+        ? filter.source
+        : [filter.source];
+      results = results.filter((m) => sources.includes(m.source));
+    }
+
     // Apply importance filter
     if (filter.minImportance !== undefined) {
       results = results.filter((m) => m.importance >= filter.minImportance!);
@@ -65,11 +150,9 @@ export class MemoryStore implements StoreAdapter {
 
     // Apply metadata filter
     if (filter.metadata) {
-      results = results.filter((m) => {
-        return Object.entries(filter.metadata!).every(
-          ([key, value]) => m.metadata[key] === value,
-        );
-      });
+      results = results.filter((m) =>
+        matchesMetadata(m.metadata, filter.metadata!),
+      );
     }
 
     // Apply sorting
@@ -118,9 +201,13 @@ export class MemoryStore implements StoreAdapter {
     return results;
   }
 
-  async search(query: string, k: number): Promise<Memory[]> {
+  async search(
+    query: string,
+    k: number,
+    filter: SearchFilter = {},
+  ): Promise<Memory[]> {
     const queryTokens = tokenize(query);
-    const memories = Array.from(this.memories.values());
+    const memories = this.filterForSearch(filter);
 
     // Score each memory by keyword similarity
     // Use token cache to avoid re-tokenization
@@ -135,15 +222,67 @@ export class MemoryStore implements StoreAdapter {
     return scored.slice(0, k).map((item) => item.memory);
   }
 
+  async vectorSearch(
+    embedding: number[],
+    k: number,
+    filter: SearchFilter = {},
+  ): Promise<Memory[]> {
+    if (this.indexConfig) {
+      const neighbors = await this.nearest(embedding, k, filter);
+      return (neighbors ?? []).map((neighbor) => neighbor.memory);
+    }
+
+    return topKByCosine(embedding, this.filterForSearch(filter), k);
+  }
+
+  async nearest(
+    embedding: number[],
+    k: number,
+    filter: SearchFilter = {},
+  ): Promise<MemoryNeighbor[] | null> {
+    if (!this.indexConfig) return null;
+
+    const { categories, metadata } = filter;
+    const accept =
+      categories || metadata
+        ? (id: string) => {
+            const memory = this.memories.get(id)!;
+            return (
+              (!categories || categories.includes(memory.category)) &&
+              (!metadata || matchesMetadata(memory.metadata, metadata))
+            );
+          }
+        : undefined;
+
+    return this.getVectorIndex()
+      .search(embedding, k, filter.namespace || undefined, accept)
+      .map(({ id, similarity }) => ({
+        memory: this.memories.get(id)!,
+        similarity,
+      }));
+  }
+
   async putMany(memories: Memory[]): Promise<void> {
     for (const memory of memories) {
       this.memories.set(memory.id, memory);
+      this.vectorIndex?.upsert(memory.id, memory.namespace, memory.embedding);
     }
   }
 
   async deleteMany(ids: string[]): Promise<void> {
     for (const id of ids) {
       this.memories.delete(id);
+      this.vectorIndex?.remove(id);
+    }
+  }
+
+  async touch(ids: string[], timestamp: number): Promise<void> {
+    for (const id of ids) {
+      const memory = this.memories.get(id);
+      if (memory) {
+        memory.accessCount++;
+        memory.lastAccessed = Math.max(memory.lastAccessed, timestamp);
+      }
     }
   }
 
@@ -160,6 +299,15 @@ export class MemoryStore implements StoreAdapter {
     }
     return count;
   }
+  async countByCategory(
+    filter: SearchFilter = {},
+  ): Promise<Record<string, number>> {
+    const counts: Record<string, number> = {};
+    for (const memory of this.filterForSearch(filter)) {
+      counts[memory.category] = (counts[memory.category] ?? 0) + 1;
+    }
+    return counts;
+  }
 
   async prune(before: number): Promise<number> {
     let pruned = 0;
@@ -174,12 +322,15 @@ export class MemoryStore implements StoreAdapter {
 
     for (const id of toDelete) {
       this.memories.delete(id);
+      this.vectorIndex?.remove(id);
     }
 
     return pruned;
   }
 
   async clear(namespace?: string): Promise<void> {
+    this.vectorIndex?.clear(namespace || undefined);
+
     if (!namespace) {
       this.memories.clear();
       return;
@@ -200,4 +351,29 @@ export class MemoryStore implements StoreAdapter {
   async dump(): Promise<Memory[]> {
     return Array.from(this.memories.values());
   }
+
+  /**
+   * Memories matching a search filter (all namespaces when none is given)
+   */
+  private filterForSearch(filter: SearchFilter): Memory[] {
+    let memories = Array.from(this.memories.values());
+
+    if (filter.namespace) {
+      memories = memories.filter((m) => m.namespace === filter.namespace);
+    }
+
+    if (filter.categories) {
+      memories = memories.filter((m) =>
+        filter.categories!.includes(m.category),
+      );
+    }
+
+    if (filter.metadata) {
+      memories = memories.filter((m) =>
+        matchesMetadata(m.metadata, filter.metadata!),
+      );
+    }
+
+    return memories;
+  }
 }
@@ -3,8 +3,20 @@
  * Fast, ACID-compliant, single-file database
  */
 
-import type { StoreAdapter, Memory, MemoryFilter } from "../types.js";
+import type {
+  StoreAdapter,
+  Memory,
+  MemoryFilter,
+  MemoryNeighbor,
+  SearchFilter,
+  EmbeddingCacheStorage,
+} from "../types.js";
 import { StoreError } from "../errors.js";
+import { tokenize } from "../tokenizer.js";
+import { cosineSimilarity } from "../similarity.js";
+import { metadataFilterToSql } from "../metadata-filter.js";
+import type { HnswConfig } from "../ann/hnsw.js";
+import { VectorIndex } from "../ann/vector-index.js";
 
 // Dynamic import for better-sqlite3 (optional dependency)
 let Database: any = null;
@@ -41,6 +53,28 @@ export interface SqliteStoreConfig {
    * @default false
    */
   verbose?: boolean;
+
+  /**
+   * Maintain an HNSW index for vectorSearch() and nearest()
+   * The graph is snapshotted to the vector_index table on close().
+   * @default false (brute-force scan of the embedding column)
+   */
+  vectorIndex?: boolean | HnswConfig;
+}
+
+/**
+ * Decode a Float32 embedding BLOB
+ * Copies when the Buffer is not 4-byte aligned (e.g. from Node's pool)
+ */
+function blobToVector(blob: Buffer): number[] {
+  const aligned = blob.byteOffset % 4 === 0 ? blob : Uint8Array.from(blob);
+  return Array.from(
+    new Float32Array(
+      aligned.buffer,
+      aligned.byteOffset,
+      aligned.byteLength / 4,
+    ),
+  );
 }
 
 /**
@@ -49,7 +83,9 @@ export interface SqliteStoreConfig {
 export class SqliteStore implements StoreAdapter {
   public readonly name = "SqliteStore";
   private db: any;
-  private config: Required<SqliteStoreConfig>;
+  private config: Required<Omit<SqliteStoreConfig, "vectorIndex">>;
+  private indexConfig: HnswConfig | null;
+  private vectorIndex: VectorIndex | null = null; // built on first search
 
   constructor(config: SqliteStoreConfig = {}) {
     if (!Database) {
@@ -64,6 +100,8 @@ export class SqliteStore implements StoreAdapter {
       memory: config.memory ?? false,
       verbose: config.verbose ?? false,
     };
+    this.indexConfig =
+      config.vectorIndex === true ? {} : config.vectorIndex || null;
 
     // Open database
     const dbPath = this.config.memory ? ":memory:" : this.config.path;
@@ -76,6 +114,9 @@ export class SqliteStore implements StoreAdapter {
       this.db.pragma("journal_mode = WAL");
     }
 
+    // Fire delete triggers on INSERT OR REPLACE so the FTS index stays in sync
+    this.db.pragma("recursive_triggers = ON");
+
     // Initialize schema
     this.initSchema();
   }
@@ -121,6 +162,195 @@ export class SqliteStore implements StoreAdapter {
         ON memories(expiresAt)
         WHERE expiresAt IS NOT NULL;
     `);
+
+    this.initFullTextSearch();
+    this.initVectorIndexSnapshot();
+  }
+
+  /**
+   * Initialize the HNSW snapshot table
+   * Any write to memories invalidates the snapshot, so a stale graph is never loaded.
+   */
+  private initVectorIndexSnapshot(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS vector_index (
+        namespace TEXT PRIMARY KEY,
+        snapshot TEXT NOT NULL
+      );
+
+      CREATE TRIGGER IF NOT EXISTS vector_index_insert
+        AFTER INSERT ON memories BEGIN
+          DELETE FROM vector_index;
+        END;
+
+      CREATE TRIGGER IF NOT EXISTS vector_index_delete
+        AFTER DELETE ON memories BEGIN
+          DELETE FROM vector_index;
+        END;
+
+      CREATE TRIGGER IF NOT EXISTS vector_index_update
+        AFTER UPDATE OF embedding, namespace ON memories BEGIN
+          DELETE FROM vector_index;
+        END;
+    `);
+  }
+
+  /**
+   * Get the vector index, restoring the snapshot or rebuilding on first use
+   */
+  private getVectorIndex(): VectorIndex {
+    if (this.vectorIndex) {
+      return this.vectorIndex;
+    }
+
+    const vectors = new Map<
+      string,
+      { namespace: string; embedding: number[] }
+    >();
+    const rows = this.db
+      .prepare(
+        "SELECT id, namespace, embedding FROM memories WHERE embedding IS NOT NULL",
+      )
+      .all();
+    for (const row of rows) {
+      vectors.set(row.id, {
+        namespace: row.namespace,
+        embedding: blobToVector(row.embedding),
+      });
+    }
+
+    const snapshotRows = this.db
+      .prepare("SELECT namespace, snapshot FROM vector_index")
+      .all();
+    if (snapshotRows.length > 0) {
+      const snapshot = Object.fromEntries(
+        snapshotRows.map((row: any) => [
+          row.namespace,
+          JSON.parse(row.snapshot),
+        ]),
+      );
+      this.vectorIndex = VectorIndex.fromJSON(
+        snapshot,
+        vectors,
+        this.indexConfig ?? {},
+      );
+    }
+
+    if (!this.vectorIndex) {
+      this.vectorIndex = new VectorIndex(this.indexConfig ?? {});
+      for (const [id, { namespace, embedding }] of vectors) {
+        this.vectorIndex.upsert(id, namespace, embedding);
+      }
+    }
+
+    return this.vectorIndex;
+  }
+
+  /**
+   * Load memories by ID, preserving the order of the IDs
+   */
+  private getMany(ids: string[]): Memory[] {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const placeholders = ids.map(() => "?").join(",");
+    const byId = new Map<string, Memory>();
+    const rows = this.db
+      .prepare(`SELECT * FROM memories WHERE id IN (${placeholders})`)
+      .all(...ids);
+    for (const row of rows) {
+      byId.set(row.id, this.deserialize(row));
+    }
+
+    return ids.filter((id) => byId.has(id)).map((id) => byId.get(id)!);
+  }
+
+  /**
+   * WHERE clause for a search filter (namespace defaults to "default")
+   */
+  private searchConditions(
+    filter: SearchFilter,
+    prefix = "",
+  ): { sql: string; params: any[] } {
+    const conditions = ["1 = 1"];
+    const params: any[] = [];
+
+    // Without a namespace, search all of them
+    if (filter.namespace) {
+      conditions.push(`${prefix}namespace = ?`);
+      params.push(filter.namespace);
+    }
+
+    if (filter.categories) {
+      conditions.push(
+        `${prefix}category IN (${filter.categories.map(() => "?").join(",")})`,
+      );
+      params.push(...filter.categories);
+    }
+
+    if (filter.metadata) {
+      const metadata = metadataFilterToSql(
+        filter.metadata,
+        `${prefix}metadata`,
+      );
+      conditions.push(metadata.sql);
+      params.push(...metadata.params);
+    }
+
+    return { sql: conditions.join(" AND "), params };
+  }
+
+  /**
+   * Initialize FTS5 keyword index
+   * Rows hold content pre-tokenized by tokenizer.ts, keyed by rowid, and are
+   * written by put()/putMany(). The triggers are plain SQL, so other
+   * connections can still write: they drop the stale row, and rows that are
+   * missing get indexed the next time the store opens.
+   */
+  private initFullTextSearch(): void {
+    this.db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS memories_fts
+        USING fts5(tokens, tokenize = "unicode61 tokenchars '_'");
+
+      -- Older versions tokenized in triggers through a connection-local function
+      DROP TRIGGER IF EXISTS memories_fts_insert;
+      DROP TRIGGER IF EXISTS memories_fts_update;
+
+      CREATE TRIGGER IF NOT EXISTS memories_fts_delete
+        AFTER DELETE ON memories BEGIN
+          DELETE FROM memories_fts WHERE rowid = old.rowid;
+        END;
+
+      CREATE TRIGGER IF NOT EXISTS memories_fts_stale
+        AFTER UPDATE OF content ON memories BEGIN
+          DELETE FROM memories_fts WHERE rowid = old.rowid;
+        END;
+    `);
+
+    // Index rows written before the FTS index existed or by other connections
+    const missing = this.db
+      .prepare(
+        "SELECT rowid, content FROM memories WHERE rowid NOT IN (SELECT rowid FROM memories_fts)",
+      )
+      .all();
+    if (missing.length > 0) {
+      this.db.transaction(() => {
+        for (const row of missing) {
+          this.indexFullText(row.rowid, row.content);
+        }
+      })();
+    }
+  }
+
+  /**
+   * Write the FTS row for a memory
+   */
+  private indexFullText(rowid: number | bigint, content: string): void {
+    this.db.prepare("DELETE FROM memories_fts WHERE rowid = ?").run(rowid);
+    this.db
+      .prepare("INSERT INTO memories_fts(rowid, tokens) VALUES (?, ?)")
+      .run(rowid, tokenize(content).join(" "));
   }
 
   /**
@@ -164,9 +394,7 @@ export class SqliteStore implements StoreAdapter {
       accessCount: row.accessCount,
       lastAccessed: row.lastAccessed,
       createdAt: row.createdAt,
-      embedding: row.embedding
-        ? Array.from(new Float32Array(row.embedding.buffer))
-        : null,
+      embedding: row.embedding ? blobToVector(row.embedding) : null,
       metadata: JSON.parse(row.metadata),
       namespace: row.namespace,
       ttl: row.ttl,
@@ -196,12 +424,17 @@ export class SqliteStore implements StoreAdapter {
         @namespace, @ttl, @expiresAt, @version, @history, @decayedImportance
       )
     `);
-    stmt.run(data);
+    this.db.transaction(() => {
+      const { lastInsertRowid } = stmt.run(data);
+      this.indexFullText(lastInsertRowid, memory.content);
+    })();
+    this.vectorIndex?.upsert(memory.id, memory.namespace, memory.embedding);
   }
 
   async delete(id: string): Promise<void> {
     const stmt = this.db.prepare("DELETE FROM memories WHERE id = ?");
     stmt.run(id);
+    this.vectorIndex?.remove(id);
   }
 
   async has(id: string): Promise<boolean> {
@@ -210,8 +443,11 @@ export class SqliteStore implements StoreAdapter {
   }
 
   async list(options: MemoryFilter = {}): Promise<Memory[]> {
-    let query = "SELECT * FROM memories WHERE namespace = ?";
-    const params: any[] = [options.namespace ?? "default"];
+    const namespaces = Array.isArray(options.namespace)
+      ? options.namespace
+      : [options.namespace ?? "default"];
+    let query = `SELECT * FROM memories WHERE namespace IN (${namespaces.map(() => "?").join(",")})`;
+    const params: any[] = [...namespaces];
 
     // Filter by categories
     if (options.categories && options.categories.length > 0) {
@@ -220,6 +456,16 @@ export class SqliteStore implements StoreAdapter {
       params.push(...options.categories);
     }
 
+    // Filter by source
+    if (options.source) {
+      const sources = Array.isArray(options.source)
+        ? options.source
+        : [options.source];
+      const placeholders = sources.map(() => "?").join(",");
+      query += ` AND source IN (${placeholders})`;
+      params.push(...sources);
+    }
+
     // Filter by minimum importance
     if (options.minImportance !== undefined) {
       query += " AND importance >= ?";
@@ -237,6 +483,13 @@ export class SqliteStore implements StoreAdapter {
       params.push(cutoff);
     }
 
+    // Filter by metadata (JSON1 conditions)
+    if (options.metadata) {
+      const metadata = metadataFilterToSql(options.metadata);
+      query += ` AND ${metadata.sql}`;
+      params.push(...metadata.params);
+    }
+
     // Sorting
     const sortBy = options.sortBy ?? "createdAt";
     const sortOrder = options.sortOrder ?? "desc";
@@ -260,23 +513,85 @@ export class SqliteStore implements StoreAdapter {
   async search(
     query: string,
     k: number,
-    namespace?: string,
+    filter: SearchFilter = {},
   ): Promise<Memory[]> {
-    const ns = namespace ?? "default";
+    // Match any query token, ranked by BM25 (lower is better)
+    const tokens = tokenize(query);
+    if (tokens.length === 0) {
+      return [];
+    }
+    const match = tokens.map((token) => `"${token}"`).join(" OR ");
+    const where = this.searchConditions(filter, "m.");
 
-    // Simple keyword-based search using FTS or LIKE
-    // For better search, consider enabling FTS5 extension
+    // CROSS JOIN keeps the FTS table as the outer loop, so MATCH runs once
+    // instead of once per row in the namespace
     const stmt = this.db.prepare(`
-      SELECT * FROM memories
-      WHERE namespace = ? AND content LIKE ?
-      ORDER BY importance DESC
+      SELECT m.* FROM memories_fts f
+      CROSS JOIN memories m ON m.rowid = f.rowid
+      WHERE memories_fts MATCH ? AND ${where.sql}
+      ORDER BY bm25(memories_fts)
       LIMIT ?
     `);
 
-    const rows = stmt.all(ns, `%${query}%`, k);
+    const rows = stmt.all(match, ...where.params, k);
     return rows.map((row: any) => this.deserialize(row));
   }
 
+  async vectorSearch(
+    embedding: number[],
+    k: number,
+    filter: SearchFilter = {},
+  ): Promise<Memory[]> {
+    if (this.indexConfig) {
+      const neighbors = await this.nearest(embedding, k, filter);
+      return (neighbors ?? []).map((neighbor) => neighbor.memory);
+    }
+
+    // Brute-force scan of the embedding column, then load only the top k rows
+    const where = this.searchConditions(filter);
+    const rows = this.db
+      .prepare(
+        `SELECT id, embedding FROM memories WHERE ${where.sql} AND embedding IS NOT NULL`,
+      )
+      .all(...where.params);
+
+    const scored: { id: string; score: number }[] = [];
+    for (const row of rows) {
+      const vector = blobToVector(row.embedding);
+      if (vector.length !== embedding.length) continue;
+      scored.push({ id: row.id, score: cosineSimilarity(embedding, vector) });
+    }
+
+    scored.sort((a, b) => b.score - a.score);
+    return this.getMany(scored.slice(0, k).map((item) => item.id));
+  }
+
+  async nearest(
+    embedding: number[],
+    k: number,
+    filter: SearchFilter = {},
+  ): Promise<MemoryNeighbor[] | null> {
+    if (!this.indexConfig) return null;
+
+    const ns = filter.namespace || undefined;
+    let accept: ((id: string) => boolean) | undefined;
+    if (filter.categories || filter.metadata) {
+      const where = this.searchConditions(filter);
+      const stmt = this.db.prepare(
+        `SELECT 1 FROM memories WHERE id = ? AND ${where.sql}`,
+      );
+      accept = (id) => stmt.get(id, ...where.params) !== undefined;
+    }
+
+    const results = this.getVectorIndex().search(embedding, k, ns, accept);
+    const similarity = new Map(results.map((r) => [r.id, r.similarity]));
+
+    return this.getMany(results.map((r) => r.id)).map((memory) => ({
+      memory,
+      similarity: similarity.get(memory.id)!,
+    }));
+  }
+
   async count(namespace?: string): Promise<number> {
     const ns = namespace ?? "default";
     const stmt = this.db.prepare(
@@ -286,10 +601,25 @@ export class SqliteStore implements StoreAdapter {
     return result.count;
   }
 
+  async countByCategory(
+    filter: SearchFilter = {},
+  ): Promise<Record<string, number>> {
+    const where = this.searchConditions(filter);
+    const rows = this.db
+      .prepare(
+        `SELECT category, COUNT(*) AS count FROM memories WHERE ${where.sql} GROUP BY category`,
+      )
+      .all(...where.params);
+    return Object.fromEntries(
+      rows.map((row: any) => [row.category, row.count]),
+    );
+  }
+
   async clear(namespace?: string): Promise<void> {
     const ns = namespace ?? "default";
     const stmt = this.db.prepare("DELETE FROM memories WHERE namespace = ?");
     stmt.run(ns);
+    this.vectorIndex?.clear(ns);
   }
 
   async dump(namespace?: string): Promise<Memory[]> {
@@ -314,11 +644,33 @@ export class SqliteStore implements StoreAdapter {
 
     const transaction = this.db.transaction((mems: Memory[]) => {
       for (const memory of mems) {
-        stmt.run(this.serialize(memory));
+        const { lastInsertRowid } = stmt.run(this.serialize(memory));
+        this.indexFullText(lastInsertRowid, memory.content);
       }
     });
 
     transaction(memories);
+
+    for (const memory of memories) {
+      this.vectorIndex?.upsert(memory.id, memory.namespace, memory.embedding);
+    }
+  }
+
+  async touch(ids: string[], timestamp: number): Promise<void> {
+    // Access columns are not indexed by FTS or the vector snapshot triggers
+    const stmt = this.db.prepare(`
+      UPDATE memories
+      SET accessCount = accessCount + 1, lastAccessed = MAX(lastAccessed, ?)
+      WHERE id = ?
+    `);
+
+    const transaction = this.db.transaction((batch: string[]) => {
+      for (const id of batch) {
+        stmt.run(timestamp, id);
+      }
+    });
+
+    transaction(ids);
   }
 
   async deleteMany(ids: string[]): Promise<void> {
@@ -327,29 +679,86 @@ export class SqliteStore implements StoreAdapter {
       `DELETE FROM memories WHERE id IN (${placeholders})`,
     );
     stmt.run(...ids);
+
+    for (const id of ids) {
+      this.vectorIndex?.remove(id);
+    }
   }
 
   async prune(timestamp: number, namespace?: string): Promise<number> {
     const ns = namespace ?? "default";
-    const stmt = this.db.prepare(`
-      DELETE FROM memories
+    const where = `
       WHERE namespace = ?
         AND expiresAt IS NOT NULL
         AND expiresAt <= ?
-    `);
+    `;
+
+    if (this.vectorIndex) {
+      const rows = this.db
+        .prepare(`SELECT id FROM memories ${where}`)
+        .all(ns, timestamp);
+      for (const row of rows) {
+        this.vectorIndex.remove(row.id);
+      }
+    }
+
+    const stmt = this.db.prepare(`DELETE FROM memories ${where}`);
     const result = stmt.run(ns, timestamp);
     return result.changes;
   }
 
   /**
    * Close database connection
+   * Saves the vector index snapshot first so the next open skips the rebuild
    */
   async close(): Promise<void> {
     if (this.db) {
+      if (this.vectorIndex) {
+        const snapshot = this.vectorIndex.toJSON();
+        const insert = this.db.prepare(
+          "INSERT INTO vector_index (namespace, snapshot) VALUES (?, ?)",
+        );
+        this.db.transaction(() => {
+          this.db.exec("DELETE FROM vector_index");
+          for (const [namespace, data] of Object.entries(snapshot)) {
+            insert.run(namespace, JSON.stringify(data));
+          }
+        })();
+      }
+
       this.db.close();
     }
   }
 
+  /**
+   * Persist an Engram embedding cache in this database
+   * Entries live in the embedding_cache table, created on first use.
+   */
+  embeddingCacheStorage(): EmbeddingCacheStorage {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS embedding_cache (
+        key TEXT PRIMARY KEY,
+        embedding BLOB NOT NULL
+      )
+    `);
+    const select = this.db.prepare(
+      "SELECT embedding FROM embedding_cache WHERE key = ?",
+    );
+    const insert = this.db.prepare(
+      "INSERT OR REPLACE INTO embedding_cache (key, embedding) VALUES (?, ?)",
+    );
+
+    return {
+      get: async (key) => {
+        const row = select.get(key);
+        return row ? blobToVector(row.embedding) : undefined;
+      },
+      set: async (key, embedding) => {
+        insert.run(key, Buffer.from(new Float32Array(embedding).buffer));
+      },
+    };
+  }
+
   /**
    * Run VACUUM to reclaim space
    */
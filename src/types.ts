@@ -60,6 +60,7 @@ export interface Memory {
 
   // ── Computed (not stored, calculated on read) ──
   decayedImportance?: number;
+  retrievalScore?: number; // set on recalled memories: rerankScore when reranked, else score
   explanation?: string;
 }
 
@@ -79,6 +80,8 @@ export interface Message {
 export interface MemoryCandidate {
   content: string;
   category: MemoryCategory;
+  importance?: number; // 1–5, the LLM's rating when llmImportanceWeight > 0
+  rationale?: string; // why the LLM rated it so
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -87,24 +90,91 @@ export interface MemoryCandidate {
 
 export type LLMFunction = (prompt: string) => Promise<string>;
 export type EmbedFunction = (text: string) => Promise<number[]>;
+// One embedding per text, in order
+export type EmbedBatchFunction = (texts: string[]) => Promise<number[][]>;
+// Relevance score per candidate, in order (higher is better)
+export type RerankFunction = (
+  query: string,
+  candidates: Memory[],
+) => Promise<number[]>;
+// Tokens in a string, as the target model counts them
+export type TokenCounter = (text: string) => number;
+
+// Backing store for cached embeddings, keyed by content hash and model
+export interface EmbeddingCacheStorage {
+  get(key: string): Promise<number[] | undefined>;
+  set(key: string, embedding: number[]): Promise<void>;
+  flush?(): Promise<void>; // write buffered entries (called on close)
+}
+
+export interface EmbeddingCacheOptions {
+  model?: string; // default: "default" — part of the key, change it when switching models
+  maxEntries?: number; // default: 1000 — in-memory LRU size
+  persist?: string | EmbeddingCacheStorage; // JSON file path, or e.g. SqliteStore.embeddingCacheStorage()
+  maxPersisted?: number; // default: 2000 — entries kept in a JSON file, least recently used dropped first
+}
+
+export interface EmbeddingCacheStats {
+  hits: number;
+  misses: number;
+  hitRate: number;
+  size: number; // entries held in memory
+}
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Store Adapter
 // ─────────────────────────────────────────────────────────────────────────────
 
+// Operators for one metadata field; several operators on a field must all hold
+export interface MetadataCondition {
+  $eq?: any;
+  $ne?: any;
+  $in?: any[];
+  $nin?: any[];
+  $gt?: number | string;
+  $gte?: number | string;
+  $lt?: number | string;
+  $lte?: number | string;
+  $exists?: boolean;
+  $contains?: any; // array element, or substring of a string
+}
+
+// Keys are dotted metadata paths ("author.team") mapped to a value (equality)
+// or a MetadataCondition; top-level keys are ANDed
+export interface MetadataFilter {
+  $and?: MetadataFilter[];
+  $or?: MetadataFilter[];
+  $not?: MetadataFilter;
+  [path: string]: any;
+}
+
 export interface MemoryFilter {
   namespace?: string | string[];
   categories?: MemoryCategory[];
+  source?: string | string[];
   minImportance?: number;
   maxAge?: number; // days
   since?: number; // epoch ms
-  metadata?: Record<string, any>;
+  metadata?: MetadataFilter;
   limit?: number;
   offset?: number;
   sortBy?: "importance" | "created" | "accessed" | "surprise";
   sortOrder?: "asc" | "desc";
 }
 
+// Pushed down into search()/vectorSearch()/nearest() so top-k is taken
+// after filtering. Without a namespace, every namespace is searched.
+export interface SearchFilter {
+  namespace?: string;
+  categories?: MemoryCategory[];
+  metadata?: MetadataFilter;
+}
+
+export interface MemoryNeighbor {
+  memory: Memory;
+  similarity: number; // cosine
+}
+
 export interface StoreAdapter {
   // ── Identity ──
   readonly name: string;
@@ -117,15 +187,29 @@ export interface StoreAdapter {
 
   // ── Query ──
   list(filter?: MemoryFilter): Promise<Memory[]>;
-  search(query: string, k: number): Promise<Memory[]>;
-  vectorSearch?(embedding: number[], k: number): Promise<Memory[]>;
+  search(query: string, k: number, filter?: SearchFilter): Promise<Memory[]>;
+  vectorSearch?(
+    embedding: number[],
+    k: number,
+    filter?: SearchFilter,
+  ): Promise<Memory[]>;
+  // Approximate nearest neighbours; null when the store keeps no ANN index
+  nearest?(
+    embedding: number[],
+    k: number,
+    filter?: SearchFilter,
+  ): Promise<MemoryNeighbor[] | null>;
 
   // ── Bulk ──
   putMany(memories: Memory[]): Promise<void>;
   deleteMany(ids: string[]): Promise<void>;
+  // Record one access per id (repeated ids count again); unknown ids are ignored
+  touch?(ids: string[], timestamp: number): Promise<void>;
 
   // ── Lifecycle ──
   count(namespace?: string): Promise<number>;
+  // Memories per category; lets scoring skip loading every memory
+  countByCategory?(filter?: SearchFilter): Promise<Record<string, number>>;
   prune(before: number): Promise<number>;
   clear(namespace?: string): Promise<void>;
 
@@ -157,15 +241,32 @@ export interface EngramHooks {
 // Configuration
 // ─────────────────────────────────────────────────────────────────────────────
 
+// Weights of the surprise components; each set is normalized to sum to 1
+export interface SurpriseWeights {
+  semantic?: number; // default: 0.6 — with embeddings
+  keyword?: number; // default: 0.3
+  rarity?: number; // default: 0.1
+  withoutEmbeddings?: {
+    keyword?: number; // default: 0.8
+    rarity?: number; // default: 0.2
+  };
+}
+
 export interface EngramConfig {
   // ── Adapters (all optional) ──
   llm?: LLMFunction;
   embed?: EmbedFunction;
+  embedBatch?: EmbedBatchFunction; // preferred over embed for several texts
   store?: StoreAdapter;
 
   // ── Scoring ──
   surpriseThreshold?: number;
+  categoryThresholds?: Record<string, number>; // overrides surpriseThreshold per category
+  sourceThresholds?: Record<string, number>; // overrides both per remember() source
+  surpriseWeights?: SurpriseWeights; // used by the default scorer
+  scorer?: Scorer; // default: surpriseScorer() — novelty algorithm for remember() and store()
   importanceBoost?: Record<string, number>;
+  llmImportanceWeight?: number; // default: 0 (off) — share of importance from the extraction LLM's 1–5 rating
 
   // ── Categories ──
   categories?: string[];
@@ -183,6 +284,19 @@ export interface EngramConfig {
     recency?: number; // default: 0.2 - How recent the memory is
     accessFrequency?: number; // default: 0.0 - How often accessed
   };
+  rerank?: RerankFunction | "llm"; // reorders candidates before the top-k cut
+  hybrid?: HybridMode; // default: "off" — how vector and keyword results are fused
+  hybridAlpha?: number; // default: 0.5 — vector share of relevance in hybrid mode
+  expandQuery?: boolean | QueryExpansionOptions; // default: false — needs llm
+  accessTracking?: AccessTracking; // default: "all" — which reads count as an access
+  accessFlushInterval?: number; // default: 0 (write immediately) — ms to batch access writes
+
+  // ── Embeddings ──
+  embedBatchSize?: number; // default: 64 — max texts per embedBatch call
+  embeddingCache?: boolean | EmbeddingCacheOptions; // default: true (in-memory LRU) — wraps embed
+
+  // ── Context ──
+  tokenCounter?: TokenCounter; // default: estimateTokens (chars / 4) — used for maxTokens
 
   // ── Namespace ──
   namespace?: string;
@@ -193,6 +307,13 @@ export interface EngramConfig {
   // ── Versioning ──
   trackHistory?: boolean;
   maxHistoryPerMemory?: number;
+
+  // ── Nearest neighbours ──
+  annNeighbors?: number; // default: 32 — neighbours compared when the store has an ANN index
+
+  // ── Contradictions ──
+  detectContradictions?: boolean; // default: false — ask the LLM on close matches
+  contradictionThreshold?: number; // default: 0.5 — similarity that triggers a check
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -218,26 +339,107 @@ export interface StoreOptions {
   explain?: boolean;
 }
 
+export interface UpdatePatch {
+  content?: string;
+  category?: MemoryCategory;
+  importance?: number;
+  source?: string;
+  metadata?: Record<string, any>; // shallow-merged into existing metadata
+  ttl?: number | null;
+}
+
+export interface UpdateOptions {
+  dryRun?: boolean;
+}
+
+// Which reads bump accessCount/lastAccessed: recall(), context(), both or neither
+export type AccessTracking = "all" | "recall" | "context" | "none";
+
+export interface QueryExpansionOptions {
+  paraphrases?: number; // default: 3
+  hyde?: boolean; // default: false — also search with a hypothetical answer
+}
+
+// "rrf" fuses vector and keyword ranks (reciprocal rank fusion);
+// "weighted" blends cosine and keyword similarity
+export type HybridMode = "off" | "rrf" | "weighted";
+
 export interface RecallOptions {
   k?: number;
   categories?: MemoryCategory[];
   minImportance?: number;
-  since?: number;
-  namespace?: string;
-  metadata?: Record<string, any>;
+  since?: number; // epoch ms, created at or after
+  until?: number; // epoch ms, created at or before
+  minScore?: number; // drop results whose retrieval score is below this
+  namespace?: string | string[];
+  namespaceWeights?: Record<string, number>; // score multiplier, default 1
+  hybrid?: HybridMode; // overrides config.hybrid
+  hybridAlpha?: number; // overrides config.hybridAlpha
+  expandQuery?: boolean | QueryExpansionOptions; // overrides config.expandQuery
+  diversity?: number; // 0-1, MMR trade-off; 0 = pure relevance (default)
+  metadata?: MetadataFilter;
   explain?: boolean;
 }
 
+// The unweighted 0-1 signals blended into a retrieval score
+export interface ScoreComponents {
+  relevance: number;
+  importance: number; // decayed, with access boost
+  recency: number;
+  accessFrequency: number;
+}
+
+export interface RecallResult {
+  memory: Memory;
+  score: number; // weighted blend of components × namespace weight
+  components: ScoreComponents;
+  matchedVia: "vector" | "keyword"; // the search that ranked it higher
+  rerankScore?: number; // set when a reranker ordered the results
+}
+
 export interface ForgetOptions {
   mode?: "gentle" | "normal" | "aggressive";
   dryRun?: boolean;
 }
 
+export interface DeleteOptions {
+  dryRun?: boolean;
+  all?: boolean; // forgetWhere(): allow a filter that only names a namespace
+}
+
+export type ContextFormat = "bullets" | "prose" | "xml" | "json" | "sectioned";
+
+/**
+ * Placeholder template for context()
+ * memory: {content} {category} {age} {importance} {namespace} {source} {id}
+ * {index} and {metadata.<path>}; header and footer: {count}
+ */
+export interface ContextTemplate {
+  header?: string; // default: ContextOptions.header
+  memory: string;
+  footer?: string;
+  separator?: string; // default: "\n"
+}
+
+export type ContextTemplateFunction = (memories: Memory[]) => string;
+
 export interface ContextOptions {
   k?: number;
-  format?: "bullets" | "prose" | "xml" | "json";
+  format?: ContextFormat;
+  template?: ContextTemplate | ContextTemplateFunction; // overrides format
+  sectionOrder?: MemoryCategory[]; // "sectioned" only; unlisted categories follow
+  sectionTitles?: Record<string, string>; // "sectioned" only; category → heading
   categories?: MemoryCategory[];
+  namespace?: string | string[];
+  namespaceWeights?: Record<string, number>;
+  diversity?: number; // 0-1, see RecallOptions.diversity
+  // Conversation input only (context(messages))
+  turns?: number; // default: 6 — recent messages used for the query
+  rewriteQuery?: boolean; // default: false — let the llm write the query
+  excludeReferenced?: boolean; // default: true — skip memories the assistant already used
   maxTokens?: number;
+  tokenCounter?: TokenCounter; // default: EngramConfig.tokenCounter
+  overflow?: "drop" | "summarize"; // default: "drop" — "summarize" has the llm compress what maxTokens cuts
   includeMetadata?: boolean;
   header?: string;
 }
@@ -248,6 +450,12 @@ export interface MergeOptions {
   explain?: boolean;
 }
 
+export interface ScopeOptions {
+  namespace?: string; // defaults to the parent's namespace
+  metadata?: Record<string, any>; // stamped on new memories and required on reads
+  inherit?: string[]; // recall falls back to these namespaces, in order
+}
+
 export interface ImportOptions {
   rescore?: boolean;
   namespace?: string;
@@ -360,6 +568,7 @@ export interface EngramStats {
   hasLLM: boolean;
   categories: string[];
   memoryUsageBytes?: number;
+  embeddingCache?: EmbeddingCacheStats; // set when embed is cached
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -374,12 +583,46 @@ export interface SurpriseResult {
   closestExisting?: Memory;
 }
 
+export interface ScorerContext {
+  existing: Memory[]; // memories to compare against (nearest neighbours on ANN stores)
+  categoryCount: number; // memories already in the candidate's category
+  categoryBoost: number; // importanceBoost for the candidate's category
+  threshold: number; // 0 for store() and forceStore
+  thresholdScope?: string; // e.g. 'category "skill"', for explanations
+  embed?: EmbedFunction;
+  explain: boolean;
+}
+
+export interface ScoreResult {
+  surprise: number; // 0.0–1.0
+  importance: number;
+  stored: boolean;
+  reason?: string; // why it was rejected, e.g. "below_threshold"
+  explanation?: string; // set when context.explain is true
+  closestExisting?: Memory;
+}
+
+// Decides whether a candidate is novel enough to store, and how important it is
+export interface Scorer {
+  score(
+    candidate: MemoryCandidate,
+    context: ScorerContext,
+  ): ScoreResult | Promise<ScoreResult>;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Contradiction Detection
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type ConflictRelation = "duplicate" | "refinement" | "contradiction";
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Events
 // ─────────────────────────────────────────────────────────────────────────────
 
 export interface EngramEvents {
   stored: (memory: Memory) => void;
+  updated: (memory: Memory, previous: Memory) => void;
   rejected: (info: RejectedInfo) => void;
   recalled: (memories: Memory[], query: string) => void;
   forgotten: (ids: string[], count: number) => void;
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import { HnswIndex } from '../../src/ann/hnsw.js';
+import { VectorIndex } from '../../src/ann/vector-index.js';
+import { cosineSimilarity } from '../../src/similarity.js';
+
+// Deterministic pseudo-random vectors
+const makeVectors = (count: number, dim: number, seed = 1): number[][] => {
+  let state = seed;
+  const random = () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648 - 0.5;
+  };
+  return Array.from({ length: count }, () =>
+    Array.from({ length: dim }, random),
+  );
+};
+
+const bruteForce = (vectors: number[][], query: number[], k: number) =>
+  vectors
+    .map((v, i) => ({ id: String(i), similarity: cosineSimilarity(query, v) }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, k)
+    .map((r) => r.id);
+
+describe('HnswIndex', () => {
+  it('should find the exact match first', () => {
+    const index = new HnswIndex();
+    const vectors = makeVectors(200, 8);
+    vectors.forEach((v, i) => index.add(String(i), v));
+
+    const results = index.search(vectors[42], 1);
+    expect(results[0].id).toBe('42');
+    expect(results[0].similarity).toBeCloseTo(1, 5);
+  });
+
+  it('should have high recall against brute force', () => {
+    const index = new HnswIndex();
+    const vectors = makeVectors(1000, 16);
+    vectors.forEach((v, i) => index.add(String(i), v));
+
+    const queries = makeVectors(20, 16, 99);
+    let hits = 0;
+    for (const query of queries) {
+      const expected = new Set(bruteForce(vectors, query, 10));
+      hits += index.search(query, 10).filter((r) => expected.has(r.id)).length;
+    }
+
+    expect(hits / (queries.length * 10)).toBeGreaterThan(0.9);
+  });
+
+  it('should exclude removed vectors and compact', () => {
+    const index = new HnswIndex();
+    const vectors = makeVectors(100, 8);
+    vectors.forEach((v, i) => index.add(String(i), v));
+
+    for (let i = 0; i < 50; i++) {
+      index.remove(String(i));
+    }
+
+    expect(index.size).toBe(50);
+    const results = index.search(vectors[10], 50);
+    expect(results.every((r) => Number(r.id) >= 50)).toBe(true);
+    expect(results).toHaveLength(50);
+  });
+
+  it('should replace a vector added under the same id', () => {
+    const index = new HnswIndex();
+    index.add('a', [1, 0]);
+    index.add('b', [0, 1]);
+    index.add('a', [0, -1]);
+
+    expect(index.size).toBe(2);
+    expect(index.search([0, -1], 1)[0].id).toBe('a');
+    expect(index.search([0.1, 1], 1)[0].id).toBe('b');
+  });
+
+  it('should ignore vectors of a different dimension', () => {
+    const index = new HnswIndex();
+    index.add('a', [1, 0, 0]);
+    index.add('b', [1, 0]);
+
+    expect(index.has('b')).toBe(false);
+    expect(index.search([1, 0], 5)).toEqual([]);
+  });
+
+  it('should round-trip through a snapshot', () => {
+    const index = new HnswIndex({ m: 8 });
+    const vectors = makeVectors(100, 8);
+    vectors.forEach((v, i) => index.add(String(i), v));
+    index.remove('3');
+
+    const restored = HnswIndex.fromJSON(
+      JSON.parse(JSON.stringify(index.toJSON())),
+      (id) => vectors[Number(id)],
+    );
+
+    expect(restored.size).toBe(99);
+    expect(restored.search(vectors[7], 5)).toEqual(index.search(vectors[7], 5));
+  });
+
+  it('should reject snapshots with missing vectors', () => {
+    const index = new HnswIndex();
+    index.add('a', [1, 0]);
+
+    expect(() => HnswIndex.fromJSON(index.toJSON(), () => null)).toThrow();
+  });
+});
+
+describe('VectorIndex', () => {
+  it('should keep one graph per namespace', () => {
+    const index = new VectorIndex();
+    index.upsert('a', 'ns1', [1, 0]);
+    index.upsert('b', 'ns2', [1, 0]);
+
+    expect(index.search([1, 0], 5, 'ns1').map((r) => r.id)).toEqual(['a']);
+    expect(index.search([1, 0], 5)).toHaveLength(2);
+
+    // Moving namespaces drops the old entry
+    index.upsert('a', 'ns2', [1, 0]);
+    expect(index.search([1, 0], 5, 'ns1')).toEqual([]);
+  });
+
+  it('should detect stale snapshots', () => {
+    const index = new VectorIndex();
+    index.upsert('a', 'default', [1, 0]);
+    const snapshot = index.toJSON();
+
+    const vectors = new Map([
+      ['a', { namespace: 'default', embedding: [1, 0] }],
+      ['b', { namespace: 'default', embedding: [0, 1] }],
+    ]);
+    expect(VectorIndex.fromJSON(snapshot, vectors)).toBeNull();
+
+    vectors.delete('b');
+    expect(VectorIndex.fromJSON(snapshot, vectors)).not.toBeNull();
+  });
+});
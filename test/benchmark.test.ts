@@ -6,7 +6,8 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { Engram } from '../src/index.js';
 import { MemoryStore } from '../src/stores/memory.js';
-import type { Message } from '../src/types.js';
+import { SqliteStore } from '../src/stores/sqlite.js';
+import type { Memory, Message } from '../src/types.js';
 
 // Mock LLM that's fast and predictable
 const mockLLM = async (prompt: string): Promise<string> => {
@@ -259,6 +260,78 @@ describe('Benchmark: Memory Operations', () => {
   });
 });
 
+// Deterministic pseudo-random embedding for a text
+function vectorFor(text: string, dimension = 64): number[] {
+  let seed = 7;
+  for (const char of text) seed = (seed * 31 + char.charCodeAt(0)) >>> 0;
+  return Array.from({ length: dimension }, () => {
+    seed = (seed * 1664525 + 1013904223) >>> 0;
+    return seed / 0xffffffff - 0.5;
+  });
+}
+
+function seededMemories(count: number): Memory[] {
+  const now = Date.now();
+  return Array.from({ length: count }, (_, i) => {
+    const content = `Note ${i} about service ${i % 50} and its deploys`;
+    return {
+      id: `seed-${i}`,
+      content,
+      category: 'fact',
+      source: 'benchmark',
+      surprise: 0.5,
+      importance: 0.5,
+      accessCount: 0,
+      lastAccessed: now,
+      createdAt: now,
+      embedding: vectorFor(content),
+      metadata: {},
+      namespace: 'default',
+      ttl: null,
+      expiresAt: null,
+      version: 1,
+      history: [],
+    };
+  });
+}
+
+describe('Benchmark: Vector Index', () => {
+  it('should make remember() faster than brute force', async () => {
+    const count = 3000;
+    let call = 0;
+    const llm = async () =>
+      JSON.stringify([
+        { content: `Service ${call++} deploys on Fridays`, category: 'skill' },
+      ]);
+    const message: Message[] = [{ role: 'user', content: 'Deploy schedule' }];
+    const durations: Record<string, number> = {};
+
+    for (const vectorIndex of [false, true]) {
+      const store = new SqliteStore({ memory: true, vectorIndex });
+      await store.putMany(seededMemories(count));
+      const mem = new Engram({
+        llm,
+        embed: async (text) => vectorFor(text),
+        store,
+      });
+      const label = vectorIndex ? 'HNSW index' : 'brute force';
+
+      // The first call builds the index
+      await benchmark(`First remember() with ${label} (${count} memories)`, async () => {
+        await mem.remember(message);
+      });
+      durations[label] = await benchmark(`10 remember() calls with ${label}`, async () => {
+        for (let i = 0; i < 10; i++) {
+          await mem.remember(message);
+        }
+      });
+      await mem.close();
+    }
+
+    expect(durations['HNSW index']).toBeLessThan(durations['brute force']);
+  }, 120000);
+});
+
 describe('Benchmark: Comparison Summary', () => {
   it('should log performance summary', async () => {
     console.log('\n📊 Performance Summary:');
@@ -0,0 +1,161 @@
+/**
+ * Tests for the BPE token counter and tokenCounter budgeting
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BpeTokenizer } from '../src/bpe.js';
+import { Engram, ConfigError } from '../src/index.js';
+import { MemoryStore } from '../src/stores/memory.js';
+import { formatContext } from '../src/context.js';
+import type { Memory } from '../src/types.js';
+
+const MERGES = ['#version: 0.2', 'h e', 'l l', 'he ll', 'hell o', 'Ġ w'].join(
+  '\n',
+);
+
+// Every single byte, then a few merged tokens
+const tiktokenFile = (tokens: string[]) =>
+  [
+    ...Array.from({ length: 256 }, (_, byte) => Buffer.from([byte])),
+    ...tokens.map((token) => Buffer.from(token)),
+  ]
+    .map((bytes, rank) => `${bytes.toString('base64')} ${rank}`)
+    .join('\n');
+
+const createMemory = (
+  id: string,
+  content: string,
+  importance: number,
+): Memory => ({
+  id,
+  content,
+  category: 'fact',
+  source: 'test',
+  surprise: 0.5,
+  importance,
+  accessCount: 0,
+  lastAccessed: Date.now(),
+  createdAt: Date.now(),
+  embedding: null,
+  metadata: {},
+  namespace: 'default',
+  ttl: null,
+  expiresAt: null,
+  version: 1,
+  history: [],
+});
+
+// One token per word, easy to check by hand
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+describe('BpeTokenizer', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'engram-bpe-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should apply merges.txt pairs by priority', () => {
+    const bpe = BpeTokenizer.fromMerges(MERGES);
+    expect(bpe.count('hello')).toBe(1);
+    // "Ġw" + o, r, l, d
+    expect(bpe.count('hello world')).toBe(6);
+    expect(bpe.count('')).toBe(0);
+  });
+
+  it('should count bytes, not characters, for unmerged text', () => {
+    const bpe = BpeTokenizer.fromMerges(MERGES);
+    expect(bpe.count('é')).toBe(2);
+  });
+
+  it('should read tiktoken rank files', () => {
+    const bpe = BpeTokenizer.fromTiktoken(
+      tiktokenFile(['he', 'll', 'hell', 'hello', ' w']),
+    );
+    expect(bpe.count('hello')).toBe(1);
+    expect(bpe.count('hello!')).toBe(2);
+    // "hello" + " w", o, r, l, d
+    expect(bpe.count('hello world')).toBe(6);
+  });
+
+  it('should load files by extension', async () => {
+    writeFileSync(join(dir, 'merges.txt'), MERGES);
+    writeFileSync(
+      join(dir, 'tokenizer.json'),
+      JSON.stringify({
+        model: {
+          type: 'BPE',
+          merges: [['h', 'e'], ['l', 'l'], 'he ll', 'hell o'],
+        },
+      }),
+    );
+    writeFileSync(join(dir, 'test.tiktoken'), tiktokenFile(['hello']));
+
+    for (const file of ['merges.txt', 'tokenizer.json', 'test.tiktoken']) {
+      const bpe = await BpeTokenizer.load(join(dir, file));
+      expect(bpe.count('hello')).toBe(1);
+    }
+  });
+
+  it('should reject malformed files', () => {
+    expect(() => BpeTokenizer.fromTiktoken('aGk= x')).toThrow(ConfigError);
+    expect(() => BpeTokenizer.fromTokenizerJson('{"model": {}}')).toThrow(
+      ConfigError,
+    );
+    expect(() => BpeTokenizer.fromMerges(MERGES, { pattern: /\w+/ })).toThrow(
+      ConfigError,
+    );
+  });
+});
+
+describe('tokenCounter budgeting', () => {
+  const memories = [
+    createMemory('1', 'one two three', 0.9),
+    createMemory('2', 'four five six seven', 0.8),
+    createMemory('3', 'eight', 0.7),
+  ];
+
+  it('should keep the rendered context within the budget', () => {
+    // Header (2) + "- one two three [fact]" (5) + "- eight [fact]" (3)
+    const result = formatContext(memories, {
+      maxTokens: 10,
+      tokenCounter: countWords,
+    });
+    expect(result).toBe(
+      'Relevant memories:\n- one two three [fact]\n- eight [fact]',
+    );
+    expect(countWords(result)).toBeLessThanOrEqual(10);
+  });
+
+  it('should return nothing when no memory fits', () => {
+    const result = formatContext(memories, {
+      maxTokens: 3,
+      tokenCounter: countWords,
+    });
+    expect(result).toBe('');
+  });
+
+  it('should use the configured tokenCounter in context()', async () => {
+    const counted: string[] = [];
+    const mem = new Engram({
+      store: new MemoryStore(),
+      tokenCounter: (text) => {
+        counted.push(text);
+        return countWords(text);
+      },
+    });
+    await mem.store('Deploys go through vercel', { skipSurprise: true });
+
+    await mem.context('deploys', { maxTokens: 100 });
+    expect(counted).toContain(
+      'Relevant memories:\n- Deploys go through vercel [fact]',
+    );
+  });
+});
@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest';
-import { formatContext, applyTokenBudget } from '../src/context.js';
+import { formatContext, formatContextWithSummary, applyTokenBudget } from '../src/context.js';
+import { estimateTokens } from '../src/tokenizer.js';
+import { ConfigError } from '../src/errors.js';
 import type { Memory } from '../src/types.js';
 
 describe('Context Formatting', () => {
@@ -161,10 +163,10 @@ describe('Context Formatting', () => {
         { ...createMemory('2', 'Recent less important', 0.5), decayedImportance: 0.5 },
       ];
 
-      const selected = applyTokenBudget(memories, 30, 'bullets', false, '');
+      const selected = applyTokenBudget(memories, 8, 'bullets', false, '');
 
       // Should select based on decayed importance (0.5 > 0.3)
-      expect(selected[0].id).toBe('2');
+      expect(selected.map((m) => m.id)).toEqual(['2']);
     });
 
     it('should return empty array for zero budget', () => {
@@ -232,4 +234,246 @@ describe('Context Formatting', () => {
       expect(parsed.length).toBeLessThanOrEqual(3);
     });
   });
+
+  describe('Sectioned format', () => {
+    const memories = [
+      { ...createMemory('1', 'Deploy with vercel'), category: 'skill' },
+      { ...createMemory('2', 'User prefers TypeScript'), category: 'preference' },
+      { ...createMemory('3', 'Project uses Next.js'), category: 'fact' },
+      { ...createMemory('4', 'Prod runs on Fly.io'), category: 'infra' },
+    ];
+
+    it('should group memories under one heading per category', () => {
+      const result = formatContext(memories, { format: 'sectioned' });
+
+      expect(result).toBe(
+        [
+          'Relevant memories:',
+          '',
+          'Facts:',
+          '- Project uses Next.js',
+          '',
+          'Preferences:',
+          '- User prefers TypeScript',
+          '',
+          'Skills:',
+          '- Deploy with vercel',
+          '',
+          'Infra:',
+          '- Prod runs on Fly.io',
+        ].join('\n'),
+      );
+    });
+
+    it('should follow the configured order and titles', () => {
+      const result = formatContext(memories, {
+        format: 'sectioned',
+        header: '',
+        sectionOrder: ['preference', 'skill'],
+        sectionTitles: { skill: 'How-tos' },
+      });
+
+      const headings = result.split('\n').filter((line) => line.endsWith(':'));
+      expect(headings).toEqual(['Preferences:', 'How-tos:', 'Facts:', 'Infra:']);
+      expect(result.startsWith('Preferences:')).toBe(true);
+    });
+  });
+
+  describe('Templates', () => {
+    it('should fill placeholders from a string template', () => {
+      const memories = [
+        { ...createMemory('1', 'User prefers TypeScript', 0.8), metadata: { source: { app: 'slack' } } },
+        createMemory('2', 'Deploy with vercel'),
+      ];
+
+      const result = formatContext(memories, {
+        template: {
+          header: 'Known ({count}):',
+          memory: '{index}. {content} ({category}, {importance}) {metadata.source.app}',
+          footer: '-- end --',
+        },
+      });
+
+      expect(result).toBe(
+        [
+          'Known (2):',
+          '1. User prefers TypeScript (fact, 0.80) slack',
+          '2. Deploy with vercel (fact, 0.50) ',
+          '-- end --',
+        ].join('\n'),
+      );
+    });
+
+    it('should use the header option when the template has none', () => {
+      const result = formatContext([createMemory('1', 'Test')], {
+        header: 'Memories:',
+        template: { memory: '* {content}', separator: ' | ' },
+      });
+      expect(result).toBe('Memories:\n* Test');
+    });
+
+    it('should reject unknown placeholders', () => {
+      expect(() =>
+        formatContext([createMemory('1', 'Test')], { template: { memory: '{contnet}' } }),
+      ).toThrow(ConfigError);
+    });
+
+    it('should call a function template with the selected memories', () => {
+      const result = formatContext(
+        [createMemory('1', 'A'), createMemory('2', 'B')],
+        { template: (memories) => memories.map((m) => m.content).join('+') },
+      );
+      expect(result).toBe('A+B');
+    });
+
+    it('should prefix XML with an explicit header', () => {
+      const result = formatContext([createMemory('1', 'Test')], {
+        format: 'xml',
+        header: 'Memories:',
+      });
+      expect(result.startsWith('Memories:\n<memories>')).toBe(true);
+    });
+
+    it('should budget against the rendered template', () => {
+      const memories = [
+        createMemory('1', 'First memory', 0.9),
+        createMemory('2', 'Second memory', 0.8),
+        createMemory('3', 'Third memory', 0.7),
+      ];
+      const template = {
+        memory: '<item note="remember this fact carefully">{content}</item>',
+      };
+      const oneItem = estimateTokens(formatContext(memories.slice(0, 1), { template }));
+
+      const result = formatContext(memories, { template, maxTokens: oneItem + 2 });
+      expect(result).toContain('First memory');
+      expect(result).not.toContain('Second memory');
+      expect(estimateTokens(result)).toBeLessThanOrEqual(oneItem + 2);
+
+      const selected = applyTokenBudget(memories, 1000, 'bullets', false, '', { template });
+      expect(selected).toHaveLength(3);
+    });
+  });
+
+  describe('Knapsack budgeting', () => {
+    // One token per word, easy to check by hand
+    const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+    const scored = (id: string, content: string, retrievalScore: number, importance = 0.5) => ({
+      ...createMemory(id, content, importance),
+      retrievalScore,
+    });
+
+    it('should prefer retrieval score over importance', () => {
+      const memories = [
+        scored('1', 'relevant but minor', 0.9, 0.1),
+        scored('2', 'important but unrelated', 0.2, 0.9),
+      ];
+
+      // Header (2) + one memory (5)
+      const selected = applyTokenBudget(memories, 7, 'bullets', false, 'Relevant memories:', {
+        tokenCounter: countWords,
+      });
+      expect(selected.map((m) => m.id)).toEqual(['1']);
+    });
+
+    it('should maximise the total score rather than take the best first', () => {
+      const memories = [
+        scored('a', 'a1 a2 a3 a4 a5 a6', 0.9),
+        scored('b', 'b1 b2', 0.6),
+        scored('c', 'c1 c2', 0.6),
+      ];
+
+      // Greedy would take "a" (8 tokens) alone; "b" + "c" cost 8 and score 1.2
+      const result = formatContext(memories, { maxTokens: 10, tokenCounter: countWords });
+      expect(result).toBe('Relevant memories:\n- b1 b2 [fact]\n- c1 c2 [fact]');
+    });
+
+    it('should select nothing when the header alone exceeds the budget', () => {
+      const memories = [scored('1', 'short', 0.9)];
+
+      // The header costs 4 tokens
+      expect(
+        applyTokenBudget(memories, 1, 'bullets', false, 'Memories from earlier sessions:', {
+          tokenCounter: countWords,
+        }),
+      ).toEqual([]);
+      expect(
+        formatContext(memories, {
+          maxTokens: 2,
+          header: 'Memories from earlier sessions:',
+          tokenCounter: countWords,
+        }),
+      ).toBe('');
+    });
+  });
+
+  describe('Overflow summary', () => {
+    const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+    const memories = [
+      createMemory('1', 'Deploy with vercel', 0.9),
+      createMemory('2', 'Staging runs Postgres 15', 0.8),
+      createMemory('3', 'CI uses GitHub Actions', 0.7),
+    ];
+
+    it('should compress the memories that did not fit into one line', async () => {
+      const prompts: string[] = [];
+      const llm = async (prompt: string) => {
+        prompts.push(prompt);
+        return 'Postgres 15 staging; GitHub Actions CI\nextra line';
+      };
+
+      const result = await formatContextWithSummary(
+        memories,
+        { maxTokens: 15, tokenCounter: countWords },
+        llm,
+      );
+
+      expect(prompts[0]).toContain('- Staging runs Postgres 15');
+      expect(prompts[0]).toContain('- CI uses GitHub Actions');
+      expect(prompts[0]).not.toContain('Deploy with vercel');
+      expect(result).toBe(
+        [
+          'Relevant memories:',
+          '- Deploy with vercel [fact]',
+          '- Postgres 15 staging; GitHub Actions CI [summary]',
+        ].join('\n'),
+      );
+      expect(countWords(result)).toBeLessThanOrEqual(15);
+    });
+
+    it('should shorten a summary that does not fit', async () => {
+      const llm = async () => 'one two three four five six seven eight nine ten';
+
+      const result = await formatContextWithSummary(
+        memories,
+        { maxTokens: 12, tokenCounter: countWords },
+        llm,
+      );
+      expect(countWords(result)).toBeLessThanOrEqual(12);
+      expect(result).toContain('- Deploy with vercel [fact]');
+      expect(result).toMatch(/- one two .*… \[summary\]$/);
+    });
+
+    it('should not call the llm when everything fits', async () => {
+      let calls = 0;
+      const llm = async () => {
+        calls++;
+        return 'summary';
+      };
+
+      const result = await formatContextWithSummary(memories, { maxTokens: 1000 }, llm);
+      expect(calls).toBe(0);
+      expect(result).toBe(formatContext(memories, { maxTokens: 1000 }));
+    });
+
+    it('should drop the overflow when the llm fails', async () => {
+      const llm = async (): Promise<string> => {
+        throw new Error('offline');
+      };
+
+      const options = { maxTokens: 20, tokenCounter: countWords };
+      const result = await formatContextWithSummary(memories, options, llm);
+      expect(result).toBe(formatContext(memories, options));
+    });
+  });
 });
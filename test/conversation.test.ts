@@ -0,0 +1,139 @@
+/**
+ * Tests for conversation-aware context(messages)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Engram } from '../src/index.js';
+import { MemoryStore } from '../src/stores/memory.js';
+import { conversationQueries } from '../src/conversation.js';
+import type { Message } from '../src/types.js';
+
+const setup = async (
+  config: Partial<ConstructorParameters<typeof Engram>[0]> = {},
+) => {
+  const mem = new Engram({ store: new MemoryStore(), ...config });
+  await mem.store('Deploys go through vercel --prod', {
+    importance: 0.5,
+    skipSurprise: true,
+  });
+  await mem.store('The staging database is Postgres 15', {
+    importance: 0.5,
+    skipSurprise: true,
+  });
+  await mem.store('User prefers dark mode in the editor', {
+    importance: 0.5,
+    skipSurprise: true,
+  });
+  return mem;
+};
+
+describe('conversationQueries', () => {
+  const messages: Message[] = [
+    { role: 'system', content: 'You are helpful' },
+    { role: 'user', content: 'Which database runs staging?' },
+    { role: 'assistant', content: 'Let me check.' },
+    { role: 'user', content: 'And how do I deploy?' },
+  ];
+
+  it('should weight the last user message highest', () => {
+    expect(conversationQueries(messages, 6)).toEqual([
+      { query: 'And how do I deploy?', weight: 1 },
+      {
+        query:
+          'Which database runs staging?\nLet me check.\nAnd how do I deploy?',
+        weight: 0.5,
+      },
+    ]);
+  });
+
+  it('should lead with a rewritten query', () => {
+    expect(conversationQueries(messages, 2, 'deploy steps')).toEqual([
+      { query: 'deploy steps', weight: 1 },
+      { query: 'And how do I deploy?', weight: 0.5 },
+    ]);
+  });
+});
+
+describe('context(messages)', () => {
+  it('should recall for the last user message first', async () => {
+    const mem = await setup();
+    const context = await mem.context(
+      [
+        { role: 'user', content: 'I like dark mode' },
+        { role: 'assistant', content: 'Noted.' },
+        { role: 'user', content: 'How do deploys work?' },
+      ],
+      { k: 1, format: 'bullets' },
+    );
+    expect(context).toContain('Deploys go through vercel --prod');
+  });
+
+  it('should skip memories the assistant already referenced', async () => {
+    const mem = await setup();
+    const messages: Message[] = [
+      { role: 'user', content: 'How do deploys work?' },
+      {
+        role: 'assistant',
+        content: 'Deploys go through vercel --prod, as you set up.',
+      },
+      { role: 'user', content: 'What about deploys to staging?' },
+    ];
+
+    const context = await mem.context(messages, { format: 'bullets' });
+    expect(context).not.toContain('vercel');
+    expect(context).toContain('Postgres 15');
+
+    const all = await mem.context(messages, {
+      format: 'bullets',
+      excludeReferenced: false,
+    });
+    expect(all).toContain('vercel');
+  });
+
+  it('should use an LLM-written query with rewriteQuery', async () => {
+    const prompts: string[] = [];
+    const mem = await setup({
+      llm: async (prompt) => {
+        prompts.push(prompt);
+        return 'Query: "staging database"';
+      },
+    });
+
+    const context = await mem.context(
+      [
+        { role: 'user', content: 'Staging is down again' },
+        { role: 'user', content: 'Which version is it on?' },
+      ],
+      { k: 1, format: 'bullets', rewriteQuery: true },
+    );
+    expect(prompts[0]).toContain('search assistant');
+    expect(prompts[0]).toContain('user: Which version is it on?');
+    expect(context).toContain('Postgres 15');
+  });
+
+  it('should fall back to the turns when the rewrite fails', async () => {
+    const mem = await setup({
+      llm: async () => {
+        throw new Error('offline');
+      },
+    });
+
+    const context = await mem.context(
+      [{ role: 'user', content: 'How do deploys work?' }],
+      { k: 1, format: 'bullets', rewriteQuery: true },
+    );
+    expect(context).toContain('vercel');
+  });
+
+  it('should track access like a string query', async () => {
+    const mem = await setup();
+    await mem.context([{ role: 'user', content: 'How do deploys work?' }], {
+      k: 1,
+    });
+
+    const deploys = (await mem.list()).find((m) =>
+      m.content.includes('vercel'),
+    );
+    expect(deploys?.accessCount).toBe(1);
+  });
+});
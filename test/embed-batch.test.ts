@@ -0,0 +1,147 @@
+/**
+ * Tests for batch embedding
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Engram, ConfigError, MemoryStore } from '../src/index.js';
+import { batchEmbedder } from '../src/embed-batch.js';
+import type { EngramConfig } from '../src/types.js';
+
+const vector = (text: string) => [text.length, 1, 0.5];
+
+// Records the size of every batch it embeds
+const countingBatch = () => {
+  const batches: string[][] = [];
+  const embedBatch = async (texts: string[]): Promise<number[][]> => {
+    batches.push(texts);
+    return texts.map(vector);
+  };
+  return { batches, embedBatch };
+};
+
+const exported = async (count: number): Promise<string> => {
+  const source = new Engram({ store: new MemoryStore() });
+  for (let i = 0; i < count; i++) {
+    await source.store(`Imported memory number ${i}`, { skipSurprise: true });
+  }
+  return source.export('json');
+};
+
+describe('batchEmbedder', () => {
+  it('should split texts into batches', async () => {
+    const { batches, embedBatch } = countingBatch();
+    const embed = batchEmbedder(async () => [0], embedBatch, 2);
+
+    const embeddings = await embed(['a', 'bb', 'ccc', 'dddd']);
+
+    expect(batches).toEqual([
+      ['a', 'bb'],
+      ['ccc', 'dddd'],
+    ]);
+    expect(embeddings.map((e) => e[0])).toEqual([1, 2, 3, 4]);
+  });
+
+  it('should fall back to one text at a time', async () => {
+    const single: string[] = [];
+    const errors: string[] = [];
+    const embed = async (text: string) => {
+      single.push(text);
+      return vector(text);
+    };
+
+    const failing = batchEmbedder(
+      embed,
+      async () => {
+        throw new Error('server busy');
+      },
+      10,
+      (error) => errors.push(error.message),
+    );
+    expect(await failing(['a', 'bb'])).toEqual([vector('a'), vector('bb')]);
+
+    const short = batchEmbedder(
+      embed,
+      async () => [[1]],
+      10,
+      (error) => errors.push(error.message),
+    );
+    await short(['a', 'bb']);
+
+    expect(single).toEqual(['a', 'bb', 'a', 'bb']);
+    expect(errors).toEqual([
+      'server busy',
+      'embedBatch returned 1 embeddings for 2 texts',
+    ]);
+  });
+});
+
+describe('Engram embedBatch', () => {
+  const llm = async () =>
+    JSON.stringify([
+      { content: 'User prefers TypeScript', category: 'preference' },
+      { content: 'User deploys with vercel', category: 'skill' },
+      { content: 'User works on a payments service', category: 'context' },
+    ]);
+
+  it('should embed all extracted candidates in one call', async () => {
+    const { batches, embedBatch } = countingBatch();
+    const mem = new Engram({ llm, embedBatch, store: new MemoryStore() });
+
+    const result = await mem.remember([
+      { role: 'user', content: 'Some conversation' },
+    ]);
+
+    expect(result.stored).toHaveLength(3);
+    expect(result.stored[0].embedding).toEqual(
+      vector('User prefers TypeScript'),
+    );
+    expect(batches.map((b) => b.length)).toEqual([3]);
+  });
+
+  it('should prefer embedBatch over embed for import()', async () => {
+    const { batches, embedBatch } = countingBatch();
+    const single: string[] = [];
+    const config: EngramConfig = {
+      embed: async (text) => {
+        single.push(text);
+        return vector(text);
+      },
+      embedBatch,
+      embedBatchSize: 2,
+      store: new MemoryStore(),
+    };
+    const mem = new Engram(config);
+
+    expect(await mem.import(await exported(5), 'json')).toBe(5);
+
+    expect(batches.map((b) => b.length)).toEqual([2, 2]);
+    expect(single).toEqual(['Imported memory number 4']);
+    const memories = await mem.list();
+    expect(memories.every((m) => m.embedding !== null)).toBe(true);
+  });
+
+  it('should only batch texts missing from the cache', async () => {
+    const { batches, embedBatch } = countingBatch();
+    const mem = new Engram({ embedBatch, store: new MemoryStore() });
+    const data = await exported(3);
+
+    await mem.import(data, 'json');
+    await mem.import(data, 'json', { onConflict: 'overwrite' });
+
+    expect(batches.map((b) => b.length)).toEqual([3]);
+    expect((await mem.stats()).embeddingCache).toMatchObject({
+      hits: 3,
+      misses: 3,
+    });
+  });
+
+  it('should reject an invalid batch size', () => {
+    expect(
+      () =>
+        new Engram({
+          embedBatch: countingBatch().embedBatch,
+          embedBatchSize: 0,
+        }),
+    ).toThrow(ConfigError);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Tests for the embedding cache
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  Engram,
+  EmbeddingCache,
+  ConfigError,
+  MemoryStore,
+  SqliteStore,
+} from '../src/index.js';
+import type { Message } from '../src/types.js';
+
+// Records every text it embeds
+const countingEmbed = () => {
+  const calls: string[] = [];
+  const embed = async (text: string): Promise<number[]> => {
+    calls.push(text);
+    return [text.length, 1, 0.5];
+  };
+  return { calls, embed };
+};
+
+describe('EmbeddingCache', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'engram-embed-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should embed repeated content once and count hits', async () => {
+    const { calls, embed } = countingEmbed();
+    const cache = new EmbeddingCache(embed);
+
+    await cache.embed('hello');
+    await cache.embed('hello');
+    await Promise.all([cache.embed('world'), cache.embed('world')]);
+
+    expect(calls).toEqual(['hello', 'world']);
+    expect(cache.getStats()).toEqual({
+      hits: 2,
+      misses: 2,
+      hitRate: 0.5,
+      size: 2,
+    });
+
+    cache.resetStats();
+    expect(cache.getStats().hits).toBe(0);
+  });
+
+  it('should evict the least recently used entry', async () => {
+    const { calls, embed } = countingEmbed();
+    const cache = new EmbeddingCache(embed, { maxEntries: 2 });
+
+    await cache.embed('a');
+    await cache.embed('b');
+    await cache.embed('a'); // b is now the oldest
+    await cache.embed('c');
+    await cache.embed('a');
+    await cache.embed('b');
+
+    expect(calls).toEqual(['a', 'b', 'c', 'b']);
+    expect(cache.getStats().size).toBe(2);
+  });
+
+  it('should hand out copies of cached vectors', async () => {
+    const cache = new EmbeddingCache(countingEmbed().embed);
+
+    const first = await cache.embed('hello');
+    first[0] = 99;
+    expect(await cache.embed('hello')).toEqual([5, 1, 0.5]);
+  });
+
+  it('should key entries by model', async () => {
+    const { calls, embed } = countingEmbed();
+    const path = join(dir, 'embeddings.json');
+
+    const small = new EmbeddingCache(embed, { model: 'small', persist: path });
+    await small.embed('hello');
+    await small.flush();
+
+    const large = new EmbeddingCache(embed, { model: 'large', persist: path });
+    await large.embed('hello');
+
+    expect(calls).toEqual(['hello', 'hello']);
+  });
+
+  it('should reload entries from a JSON file', async () => {
+    const { calls, embed } = countingEmbed();
+    const path = join(dir, 'cache', 'embeddings.json');
+
+    const first = new EmbeddingCache(embed, { persist: path });
+    await first.embed('hello');
+    await first.flush();
+
+    const second = new EmbeddingCache(embed, { persist: path });
+    expect(await second.embed('hello')).toEqual([5, 1, 0.5]);
+    expect(calls).toEqual(['hello']);
+    expect(second.getStats()).toMatchObject({ hits: 1, misses: 0 });
+  });
+
+  it('should cap the entries kept in a JSON file', async () => {
+    const { calls, embed } = countingEmbed();
+    const path = join(dir, 'embeddings.json');
+
+    const first = new EmbeddingCache(embed, { persist: path, maxPersisted: 2 });
+    await first.embed('a');
+    await first.embed('b');
+    await first.embed('c');
+    await first.flush();
+
+    const second = new EmbeddingCache(embed, { persist: path });
+    await second.embed('b');
+    await second.embed('c');
+    await second.embed('a');
+    expect(calls).toEqual(['a', 'b', 'c', 'a']);
+  });
+
+  it('should persist entries in a SQLite table', async () => {
+    const { calls, embed } = countingEmbed();
+    const path = join(dir, 'engram.db');
+
+    const store = new SqliteStore({ path });
+    await new EmbeddingCache(embed, {
+      persist: store.embeddingCacheStorage(),
+    }).embed('hello');
+    await store.close();
+
+    const reopened = new SqliteStore({ path });
+    const cache = new EmbeddingCache(embed, {
+      persist: reopened.embeddingCacheStorage(),
+    });
+    expect(await cache.embed('hello')).toEqual([5, 1, 0.5]);
+    expect(calls).toEqual(['hello']);
+    await reopened.close();
+  });
+
+  it('should reject an empty cache size', () => {
+    expect(
+      () => new EmbeddingCache(countingEmbed().embed, { maxEntries: 0 }),
+    ).toThrow(ConfigError);
+  });
+});
+
+describe('Engram embedding cache', () => {
+  const messages: Message[] = [
+    { role: 'user', content: 'I prefer TypeScript over JavaScript' },
+  ];
+  const llm = async () =>
+    JSON.stringify([
+      { content: 'User prefers TypeScript', category: 'preference' },
+    ]);
+
+  it('should embed each candidate once per remember()', async () => {
+    const { calls, embed } = countingEmbed();
+    const mem = new Engram({ llm, embed, store: new MemoryStore() });
+
+    await mem.remember(messages);
+    await mem.recall('User prefers TypeScript');
+
+    expect(calls).toEqual(['User prefers TypeScript']);
+    const stats = await mem.stats();
+    expect(stats.embeddingCache?.misses).toBe(1);
+    expect(stats.embeddingCache?.hits).toBeGreaterThan(0);
+  });
+
+  it('should call embed directly when disabled', async () => {
+    const { calls, embed } = countingEmbed();
+    const mem = new Engram({
+      llm,
+      embed,
+      store: new MemoryStore(),
+      embeddingCache: false,
+    });
+
+    await mem.remember(messages);
+    await mem.recall('User prefers TypeScript');
+
+    expect(calls.length).toBeGreaterThan(1);
+    expect((await mem.stats()).embeddingCache).toBeUndefined();
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Tests for hybrid vector + keyword fusion
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Engram } from '../src/index.js';
+import { MemoryStore } from '../src/stores/memory.js';
+import type { EngramConfig } from '../src/types.js';
+
+// The login note embeds close to the query; the auth.ts note only matches by keyword
+const mockEmbed = async (text: string): Promise<number[]> => {
+  if (text === 'auth.ts') return [1, 0.2];
+  if (text.includes('auth.ts')) return [0.2, 1];
+  return [1, 0.1];
+};
+
+const setup = async (config: Partial<EngramConfig> = {}) => {
+  const mem = new Engram({
+    store: new MemoryStore(),
+    embed: mockEmbed,
+    ...config,
+  });
+  await mem.store('Session handling lives in auth.ts', {
+    importance: 0.5,
+    skipSurprise: true,
+  });
+  await mem.store('Login flows and user sessions', {
+    importance: 0.5,
+    skipSurprise: true,
+  });
+  return mem;
+};
+
+describe('Hybrid retrieval', () => {
+  it('should rank by cosine alone when hybrid is off', async () => {
+    const mem = await setup();
+
+    const results = await mem.recall('auth.ts', { k: 1 });
+    expect(results[0].content).toBe('Login flows and user sessions');
+  });
+
+  it('should let an exact keyword match win with rrf', async () => {
+    const mem = await setup({ hybrid: 'rrf' });
+
+    const results = await mem.recall('auth.ts', { k: 1 });
+    expect(results[0].content).toBe('Session handling lives in auth.ts');
+  });
+
+  it('should let a per-recall alpha of 1 ignore keyword ranks', async () => {
+    const mem = await setup({ hybrid: 'rrf' });
+
+    const results = await mem.recall('auth.ts', { k: 1, hybridAlpha: 1 });
+    expect(results[0].content).toBe('Login flows and user sessions');
+  });
+
+  it('should blend cosine and keyword similarity when weighted', async () => {
+    const mem = await setup();
+
+    const results = await mem.recall('auth.ts', {
+      k: 1,
+      hybrid: 'weighted',
+      hybridAlpha: 0.2,
+    });
+    expect(results[0].content).toBe('Session handling lives in auth.ts');
+  });
+
+  it('should explain both component ranks', async () => {
+    const mem = await setup({ hybrid: 'rrf', hybridAlpha: 0.4 });
+
+    const results = await mem.recall('auth.ts', { explain: true });
+    const byContent = new Map(results.map((m) => [m.content, m.explanation]));
+
+    expect(byContent.get('Session handling lives in auth.ts')).toContain(
+      'hybrid: rrf (alpha 0.40) — vector rank 2, keyword rank 1',
+    );
+    expect(byContent.get('Login flows and user sessions')).toContain(
+      'vector rank 1, keyword rank none',
+    );
+  });
+
+  it('should fall back to keyword relevance without embeddings', async () => {
+    const mem = new Engram({ store: new MemoryStore(), hybrid: 'rrf' });
+    await mem.store('Session handling lives in auth.ts');
+    await mem.store('Login flows and user sessions');
+
+    const results = await mem.recall('auth.ts', { explain: true });
+    expect(results[0].content).toBe('Session handling lives in auth.ts');
+    expect(results[0].explanation).not.toContain('hybrid');
+  });
+});
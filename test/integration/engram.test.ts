@@ -1,6 +1,6 @@
-import { describe, it, expect, beforeEach } from 'vitest';
-import { Engram, MemoryStore } from '../../src/index.js';
-import type { Message } from '../../src/types.js';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Engram, MemoryStore, SqliteStore } from '../../src/index.js';
+import type { MemoryFilter, Message, StoreAdapter } from '../../src/types.js';
 
 describe('Engram Integration Tests', () => {
   let mem: Engram;
@@ -68,6 +68,41 @@ describe('Engram Integration Tests', () => {
       expect(result2.rejected).toHaveLength(1);
     });
 
+    it('should reject duplicates against a vector-indexed store', async () => {
+      mem = new Engram({
+        llm: mockLLM,
+        embed: mockEmbed,
+        store: new MemoryStore({ vectorIndex: true }),
+      });
+      const messages: Message[] = [
+        { role: 'user', content: 'I prefer TypeScript' },
+      ];
+
+      expect((await mem.remember(messages)).stored).toHaveLength(1);
+      const result = await mem.remember(messages);
+      expect(result.stored).toHaveLength(0);
+      expect(result.rejected).toHaveLength(1);
+    });
+
+    it('should only load neighbours from a vector-indexed store', async () => {
+      const store = new SqliteStore({ memory: true, vectorIndex: true });
+      const list = vi.spyOn(store, 'list');
+      mem = new Engram({ llm: mockLLM, embed: mockEmbed, store });
+      await mem.store('User deploys with vercel', { category: 'skill' });
+
+      const result = await mem.remember([
+        { role: 'user', content: 'I prefer TypeScript' },
+      ]);
+
+      expect(result.stored).toHaveLength(1);
+      expect(list).not.toHaveBeenCalled();
+      expect(await store.countByCategory({ namespace: 'default' })).toEqual({
+        preference: 1,
+        skill: 1,
+      });
+      await mem.close();
+    });
+
     it('should work in dry-run mode', async () => {
       const messages: Message[] = [
         { role: 'user', content: 'I prefer TypeScript' },
@@ -109,6 +144,113 @@ describe('Engram Integration Tests', () => {
     });
   });
 
+  describe('surprise thresholds', () => {
+    const llm = async () =>
+      JSON.stringify([
+        { content: 'Run migrations with pnpm db:migrate', category: 'skill' },
+        { content: 'Standup ran long today', category: 'episode' },
+      ]);
+    const messages: Message[] = [{ role: 'user', content: 'notes' }];
+
+    it('should apply per-category thresholds', async () => {
+      const engram = new Engram({
+        llm,
+        store: new MemoryStore(),
+        surpriseThreshold: 0.3,
+        categoryThresholds: { episode: 1.1 },
+      });
+
+      const result = await engram.remember(messages, { explain: true });
+      expect(result.stored.map((m) => m.category)).toEqual(['skill']);
+      expect(result.rejected[0].explanation).toContain('threshold 1.1 for category "episode"');
+    });
+
+    it('should let per-source thresholds override categories', async () => {
+      const engram = new Engram({
+        llm,
+        store: new MemoryStore(),
+        categoryThresholds: { episode: 1.1 },
+        sourceThresholds: { import: 0 },
+      });
+
+      const result = await engram.remember(messages, { source: 'import' });
+      expect(result.stored).toHaveLength(2);
+    });
+
+    it('should score with a custom scorer', async () => {
+      const seen: string[] = [];
+      const engram = new Engram({
+        llm,
+        store: new MemoryStore(),
+        categoryThresholds: { episode: 0.5 },
+        scorer: {
+          score: (candidate, context) => {
+            seen.push(`${candidate.category}:${context.threshold}`);
+            const surprise = candidate.category === 'skill' ? 0.9 : 0.4;
+            return {
+              surprise,
+              importance: surprise * context.categoryBoost,
+              stored: surprise >= context.threshold,
+              reason: surprise >= context.threshold ? undefined : 'below_threshold',
+            };
+          },
+        },
+      });
+
+      const result = await engram.remember(messages);
+      expect(seen).toEqual(['skill:0.3', 'episode:0.5']);
+      expect(result.stored.map((m) => m.surprise)).toEqual([0.9]);
+      expect(result.rejected[0].surprise).toBe(0.4);
+    });
+
+    it('should blend LLM-rated importance when asked', async () => {
+      const prompts: string[] = [];
+      const rated = async (prompt: string) => {
+        prompts.push(prompt);
+        return JSON.stringify([
+          { content: 'User said hi in French', category: 'episode', importance: 1, rationale: 'small talk' },
+          { content: 'Production DB password rotates every Monday', category: 'fact', importance: '5' },
+        ]);
+      };
+      const engram = new Engram({
+        llm: rated,
+        store: new MemoryStore(),
+        llmImportanceWeight: 0.5,
+      });
+
+      const result = await engram.remember(messages, { explain: true });
+      expect(prompts[0]).toContain('"importance": an integer from 1 (trivial) to 5');
+      const [hi, rotation] = result.stored;
+      expect(rotation.importance).toBeGreaterThan(hi.importance);
+      expect(hi.explanation).toContain('0.50 × LLM rating 1/5 "small talk"');
+    });
+
+    it('should not ask for importance by default', async () => {
+      const prompts: string[] = [];
+      const engram = new Engram({
+        llm: async (prompt) => {
+          prompts.push(prompt);
+          return '[]';
+        },
+        store: new MemoryStore(),
+      });
+
+      await engram.remember(messages);
+      expect(prompts[0]).toContain('exactly two fields');
+      expect(prompts[0]).not.toContain('"importance"');
+      expect(() => new Engram({ llmImportanceWeight: 2 })).toThrow('llmImportanceWeight must be between 0 and 1');
+    });
+
+    it('should reject invalid surprise weights', () => {
+      expect(() => new Engram({ surpriseWeights: { keyword: -1 } })).toThrow(
+        'surpriseWeights must not be negative',
+      );
+      expect(
+        () => new Engram({ surpriseWeights: { withoutEmbeddings: { keyword: 0, rarity: 0 } } }),
+      ).toThrow('must not all be 0');
+    });
+  });
+
   describe('store() workflow', () => {
     it('should manually store a memory', async () => {
       const memory = await mem.store('Deploy with vercel --prod', {
@@ -141,6 +283,137 @@ describe('Engram Integration Tests', () => {
     });
   });
 
+  describe('update() workflow', () => {
+    it('should edit content and record history', async () => {
+      const original = await mem.store('User prefers tabs', {
+        category: 'preference',
+      });
+
+      const updated = await mem.update(original.id, {
+        content: 'User prefers spaces',
+      });
+
+      expect(updated.content).toBe('User prefers spaces');
+      expect(updated.version).toBe(2);
+      expect(updated.history).toHaveLength(1);
+      expect(updated.history[0].content).toBe('User prefers tabs');
+      expect(updated.history[0].reason).toBe('updated');
+      expect(updated.embedding).toEqual(await mockEmbed('User prefers spaces'));
+
+      const stored = await mem.get(original.id);
+      expect(stored?.content).toBe('User prefers spaces');
+    });
+
+    it('should respect maxHistoryPerMemory', async () => {
+      mem = new Engram({ store: new MemoryStore(), maxHistoryPerMemory: 2 });
+      const original = await mem.store('v1');
+
+      for (let i = 2; i <= 5; i++) {
+        await mem.update(original.id, { content: `v${i}` });
+      }
+
+      const stored = await mem.get(original.id);
+      expect(stored?.version).toBe(5);
+      expect(stored?.history.map((h) => h.content)).toEqual(['v3', 'v4']);
+    });
+
+    it('should merge metadata without touching history', async () => {
+      const original = await mem.store('Test', { metadata: { a: 1 } });
+      const updated = await mem.update(original.id, { metadata: { b: 2 } });
+
+      expect(updated.metadata).toEqual({ a: 1, b: 2 });
+      expect(updated.history).toHaveLength(0);
+      expect(updated.version).toBe(2);
+    });
+
+    it('should not persist in dry-run mode', async () => {
+      const original = await mem.store('Original');
+      await mem.update(original.id, { content: 'Changed' }, { dryRun: true });
+
+      const stored = await mem.get(original.id);
+      expect(stored?.content).toBe('Original');
+    });
+
+    it('should emit updated event with previous version', async () => {
+      const original = await mem.store('Before');
+      let previousContent: string | undefined;
+      mem.on('updated', (_memory, previous) => {
+        previousContent = previous.content;
+      });
+
+      await mem.update(original.id, { content: 'After' });
+      expect(previousContent).toBe('Before');
+    });
+
+    it('should throw for unknown id', async () => {
+      await expect(mem.update('missing', { content: 'x' })).rejects.toThrow(
+        'Memory not found',
+      );
+    });
+  });
+
+  describe('contradiction detection', () => {
+    const conflictLLM = (relation: string) => async (prompt: string) => {
+      if (prompt.includes('memory consistency checker')) {
+        return JSON.stringify({ relation });
+      }
+      return JSON.stringify([
+        { content: 'User now prefers spaces', category: 'preference' },
+      ]);
+    };
+
+    const setup = async (relation: string) => {
+      mem = new Engram({
+        llm: conflictLLM(relation),
+        store: new MemoryStore(),
+        detectContradictions: true,
+        contradictionThreshold: 0.4,
+      });
+      return mem.store('User prefers tabs', { category: 'preference' });
+    };
+
+    it('should supersede contradicted memories', async () => {
+      const original = await setup('contradiction');
+
+      const result = await mem.remember([
+        { role: 'user', content: 'Actually I use spaces now' },
+      ]);
+
+      expect(result.stored).toHaveLength(1);
+      expect(result.stored[0].id).toBe(original.id);
+
+      const all = await mem.list();
+      expect(all).toHaveLength(1);
+      expect(all[0].content).toBe('User now prefers spaces');
+      expect(all[0].history[0]).toMatchObject({
+        content: 'User prefers tabs',
+        reason: 'conflict_resolved',
+      });
+    });
+
+    it('should reject duplicates classified by the LLM', async () => {
+      await setup('duplicate');
+
+      const result = await mem.remember([
+        { role: 'user', content: 'Spaces please' },
+      ]);
+
+      expect(result.stored).toHaveLength(0);
+      expect(result.rejected[0].reason).toBe('duplicate_content');
+    });
+
+    it('should fall back to novelty scoring for refinements', async () => {
+      await setup('refinement');
+
+      const result = await mem.remember([
+        { role: 'user', content: 'Spaces please' },
+      ]);
+
+      expect(result.stored).toHaveLength(1);
+      expect(await mem.list()).toHaveLength(2);
+    });
+  });
+
   describe('recall() workflow', () => {
     beforeEach(async () => {
       await mem.store('User prefers TypeScript', { category: 'preference' });
@@ -168,6 +441,22 @@ describe('Engram Integration Tests', () => {
       expect(results.every((m) => m.category === 'skill')).toBe(true);
     });
 
+    it('should recall from a non-default namespace', async () => {
+      const store = new SqliteStore({ memory: true });
+      const tenant = new Engram({ store, namespace: 'tenant' });
+      await tenant.store('Tenant deploys with fly.io', { category: 'skill' });
+      // Crowd the over-fetch with default-namespace matches
+      const other = new Engram({ store });
+      for (let i = 0; i < 10; i++) {
+        await other.store(`Default deploys ${i}`, { category: 'skill' });
+      }
+
+      const results = await tenant.recall('deploys', { k: 1 });
+      await store.close();
+
+      expect(results.map((m) => m.content)).toEqual(['Tenant deploys with fly.io']);
+    });
+
     it('should update access count', async () => {
       const results = await mem.recall('TypeScript');
       const memory = results[0];
@@ -189,6 +478,123 @@ describe('Engram Integration Tests', () => {
     });
   });
 
+  describe('access tracking', () => {
+    const countingStore = () => {
+      const store = new MemoryStore();
+      const calls = { put: 0, touch: 0 };
+      const put = store.put.bind(store);
+      const touch = store.touch.bind(store);
+      store.put = async (memory) => {
+        calls.put++;
+        return put(memory);
+      };
+      store.touch = async (ids, timestamp) => {
+        calls.touch++;
+        return touch(ids, timestamp);
+      };
+      return { store, calls };
+    };
+
+    it('should record one batched touch per recall', async () => {
+      const { store, calls } = countingStore();
+      const engram = new Engram({ store });
+      await engram.store('User prefers TypeScript', { skipSurprise: true });
+      await engram.store('User prefers tabs', { skipSurprise: true });
+      calls.put = 0;
+
+      await engram.recall('User prefers');
+
+      expect(calls).toEqual({ put: 0, touch: 1 });
+      expect((await engram.list()).every((m) => m.accessCount === 1)).toBe(true);
+    });
+
+    it('should only count the configured calls', async () => {
+      const engram = new Engram({ store: new MemoryStore(), accessTracking: 'recall' });
+      await engram.store('User prefers TypeScript', { skipSurprise: true });
+
+      await engram.context('TypeScript');
+      expect((await engram.list())[0].accessCount).toBe(0);
+
+      await engram.recall('TypeScript');
+      expect((await engram.list())[0].accessCount).toBe(1);
+    });
+
+    it('should defer writes until the flush interval', async () => {
+      const { store, calls } = countingStore();
+      const engram = new Engram({ store, accessFlushInterval: 60_000 });
+      await engram.store('User prefers TypeScript', { skipSurprise: true });
+
+      const [first] = await engram.recall('TypeScript');
+      await engram.recallWithScores('TypeScript');
+      await engram.context('TypeScript');
+
+      // Returned memories reflect the access before it is written
+      expect(first.accessCount).toBe(1);
+      expect(calls.touch).toBe(0);
+      expect((await store.list())[0].accessCount).toBe(0);
+
+      await engram.flushAccess();
+      expect(calls.touch).toBe(1);
+      expect((await store.list())[0].accessCount).toBe(3);
+    });
+
+    it('should flush buffered accesses on close', async () => {
+      const store = new MemoryStore();
+      const engram = new Engram({ store, accessFlushInterval: 60_000 });
+      const scoped = engram.scope({ namespace: 'team' });
+      await scoped.store('Team prefers tabs', { skipSurprise: true });
+
+      await scoped.recall('tabs');
+      await engram.close();
+
+      expect((await store.list({ namespace: 'team' }))[0].accessCount).toBe(1);
+    });
+  });
+
+  describe('context() token budget', () => {
+    const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+    it('should keep the most relevant memories and summarize the rest', async () => {
+      const prompts: string[] = [];
+      const engram = new Engram({
+        store: new MemoryStore(),
+        tokenCounter: countWords,
+        llm: async (prompt) => {
+          prompts.push(prompt);
+          return 'Prefers TypeScript';
+        },
+      });
+      await engram.store('Deploy with vercel --prod', { importance: 0.2, skipSurprise: true });
+      await engram.store('Deploys are frozen on Fridays', { importance: 0.2, skipSurprise: true });
+      await engram.store('User prefers TypeScript', { importance: 0.4, skipSurprise: true });
+
+      // The two deploy memories cost 13 of 15 tokens and outscore the more important one
+      const dropped = await engram.context('vercel deploys fridays', { maxTokens: 15 });
+      expect(dropped).toContain('Deploy with vercel --prod');
+      expect(dropped).toContain('Deploys are frozen on Fridays');
+      expect(dropped).not.toContain('TypeScript');
+      expect(prompts).toHaveLength(0);
+
+      const summarized = await engram.context('vercel deploys fridays', {
+        maxTokens: 15,
+        overflow: 'summarize',
+      });
+      expect(prompts[0]).toContain('- User prefers TypeScript');
+      expect(summarized).toContain('[summary]');
+      expect(countWords(summarized)).toBeLessThanOrEqual(15);
+    });
+
+    it('should return an empty context when the budget is smaller than the header', async () => {
+      const engram = new Engram({ store: new MemoryStore(), llm: async () => 'summary' });
+      await engram.store('Deploy with vercel --prod', { skipSurprise: true });
+
+      for (const maxTokens of [1, 2, 3]) {
+        expect(await engram.context('deploy', { maxTokens })).toBe('');
+        expect(await engram.context('deploy', { maxTokens, overflow: 'summarize' })).toBe('');
+      }
+    });
+  });
+
   describe('forget() workflow', () => {
     beforeEach(async () => {
       // Create memories with different ages
@@ -217,6 +623,285 @@ describe('Engram Integration Tests', () => {
     });
   });
 
+  describe('delete() and forgetWhere() workflow', () => {
+    it('should delete memories by id', async () => {
+      const a = await mem.store('Memory A');
+      const b = await mem.store('Memory B');
+
+      const result = await mem.delete(a.id);
+
+      expect(result.pruned).toBe(1);
+      expect(result.remaining).toBe(1);
+      expect(result.prunedIds).toEqual([a.id]);
+      expect(await mem.get(a.id)).toBeNull();
+      expect(await mem.get(b.id)).not.toBeNull();
+    });
+
+    it('should ignore unknown ids', async () => {
+      await mem.store('Memory A');
+      const result = await mem.delete(['missing']);
+
+      expect(result.pruned).toBe(0);
+      expect(result.remaining).toBe(1);
+    });
+
+    it('should forget memories matching metadata and source', async () => {
+      await mem.store('User 42 likes cats', { metadata: { userId: 42 } });
+      await mem.store('User 7 likes dogs', { metadata: { userId: 7 } });
+      await mem.store('Imported fact', { source: 'crm' });
+
+      const byUser = await mem.forgetWhere({ metadata: { userId: 42 } });
+      expect(byUser.pruned).toBe(1);
+
+      const bySource = await mem.forgetWhere({ source: 'crm' });
+      expect(bySource.pruned).toBe(1);
+
+      const left = await mem.list();
+      expect(left.map((m) => m.content)).toEqual(['User 7 likes dogs']);
+    });
+
+    it('should only forget matching metadata on SqliteStore', async () => {
+      mem = new Engram({ store: new SqliteStore({ memory: true }) });
+      await mem.store('User 42 likes cats', { metadata: { userId: 42 } });
+      await mem.store('User 7 likes dogs', { metadata: { userId: 7 } });
+
+      const result = await mem.forgetWhere({ metadata: { userId: 42 } });
+
+      expect(result.pruned).toBe(1);
+      expect((await mem.list()).map((m) => m.content)).toEqual([
+        'User 7 likes dogs',
+      ]);
+      await mem.close();
+    });
+
+    it('should not widen the delete when a store ignores metadata', async () => {
+      const inner = new MemoryStore();
+      const store: StoreAdapter = Object.assign(Object.create(inner), {
+        list: (filter: MemoryFilter = {}) =>
+          inner.list({ ...filter, metadata: undefined }),
+      });
+      mem = new Engram({ store });
+      await mem.store('User 42 likes cats', { metadata: { userId: 42 } });
+      await mem.store('User 7 likes dogs', { metadata: { userId: 7 } });
+
+      const result = await mem.forgetWhere({ metadata: { userId: 42 } });
+
+      expect(result.pruned).toBe(1);
+      expect((await inner.list()).map((m) => m.content)).toEqual([
+        'User 7 likes dogs',
+      ]);
+    });
+
+    it('should forget several namespaces on SqliteStore', async () => {
+      const store = new SqliteStore({ memory: true });
+      for (const namespace of ['a', 'b', 'c']) {
+        await new Engram({ store, namespace }).store(`Team ${namespace} note`);
+      }
+      mem = new Engram({ store });
+
+      const result = await mem.forgetWhere(
+        { namespace: ['a', 'b'] },
+        { all: true },
+      );
+
+      expect(result.pruned).toBe(2);
+      const left = await store.list({ namespace: ['a', 'b', 'c'] });
+      expect(left.map((m) => m.content)).toEqual(['Team c note']);
+      await mem.close();
+    });
+
+    it('should refuse a filter without conditions', async () => {
+      await mem.store('Memory A');
+
+      for (const filter of [{}, { namespace: 'default' }, { metadata: {} }]) {
+        await expect(mem.forgetWhere(filter)).rejects.toMatchObject({
+          code: 'EMPTY_FILTER',
+        });
+      }
+      expect(await mem.list()).toHaveLength(1);
+    });
+
+    it('should not delete in dry-run mode', async () => {
+      const a = await mem.store('Memory A');
+      const result = await mem.delete(a.id, { dryRun: true });
+
+      expect(result.dryRun).toBe(true);
+      expect(result.prunedIds).toEqual([a.id]);
+      expect(await mem.get(a.id)).not.toBeNull();
+    });
+
+    it('should run beforeForget hook and emit forgotten', async () => {
+      mem = new Engram({
+        store: new MemoryStore(),
+        hooks: {
+          // Protect pinned memories
+          beforeForget: (memories) =>
+            memories.filter((m) => !m.metadata.pinned),
+        },
+      });
+      await mem.store('Pinned', { metadata: { pinned: true } });
+      await mem.store('Loose');
+
+      let forgottenIds: string[] = [];
+      mem.on('forgotten', (ids) => {
+        forgottenIds = ids;
+      });
+
+      const result = await mem.forgetWhere({}, { all: true });
+
+      expect(result.pruned).toBe(1);
+      expect(forgottenIds).toHaveLength(1);
+      expect((await mem.list()).map((m) => m.content)).toEqual(['Pinned']);
+    });
+  });
+
+  describe('scope() workflow', () => {
+    it('should confine reads and writes to a namespace and metadata', async () => {
+      const alice = mem.scope({ namespace: 'team:1', metadata: { userId: 'alice' } });
+      const bob = mem.scope({ namespace: 'team:1', metadata: { userId: 'bob' } });
+
+      const stored = await alice.store('Alice deploys with vercel', { category: 'skill' });
+      await bob.store('Bob deploys with netlify', { category: 'skill' });
+
+      expect(stored.namespace).toBe('team:1');
+      expect(stored.metadata.userId).toBe('alice');
+      expect((await alice.recall('deploys')).map((m) => m.content)).toEqual([
+        'Alice deploys with vercel',
+      ]);
+      expect((await bob.list()).map((m) => m.content)).toEqual([
+        'Bob deploys with netlify',
+      ]);
+      expect(await bob.get(stored.id)).toBeNull();
+      expect((await alice.stats()).totalMemories).toBe(1);
+
+      // The unscoped engram doesn't see other namespaces either
+      expect(await mem.recall('deploys')).toEqual([]);
+    });
+
+    it('should not let a scope modify another tenant', async () => {
+      const alice = mem.scope({ namespace: 'user:alice' });
+      const bob = mem.scope({ namespace: 'user:bob' });
+      const memory = await alice.store('Alice prefers tabs');
+
+      await expect(bob.update(memory.id, { content: 'hijacked' })).rejects.toMatchObject({
+        code: 'NOT_FOUND',
+      });
+      expect((await bob.delete(memory.id)).pruned).toBe(0);
+      await expect(
+        bob.forgetWhere({ namespace: 'user:alice' }),
+      ).rejects.toMatchObject({ code: 'OUT_OF_SCOPE' });
+
+      expect(await alice.get(memory.id)).not.toBeNull();
+    });
+
+    it('should treat dotted scope keys as paths when reading and writing', async () => {
+      const store = new SqliteStore({ memory: true });
+      const parent = new Engram({ store });
+      const teamX = parent.scope({ metadata: { 'team.id': 'x' } });
+
+      const own = await teamX.store('Team X ships on Tuesdays');
+      const nested = await parent.store('Team X uses pnpm', { metadata: { team: { id: 'x', size: 4 } } });
+      const other = await parent.store('Team Y uses yarn', { metadata: { team: { id: 'y' } } });
+
+      expect(own.metadata).toEqual({ team: { id: 'x' } });
+      expect((await teamX.list()).map((m) => m.content).sort()).toEqual([
+        'Team X ships on Tuesdays',
+        'Team X uses pnpm',
+      ]);
+
+      // Whatever the scope can read it can also modify, and nothing else
+      const updated = await teamX.update(nested.id, { content: 'Team X uses pnpm 9' });
+      expect(updated.metadata).toEqual({ team: { id: 'x', size: 4 } });
+      await expect(teamX.update(other.id, { content: 'hijacked' })).rejects.toMatchObject({
+        code: 'NOT_FOUND',
+      });
+      expect((await teamX.delete([own.id, other.id])).pruned).toBe(1);
+      expect(await parent.get(other.id)).not.toBeNull();
+      await parent.close();
+    });
+
+    it.each([
+      ['MemoryStore', () => new MemoryStore()],
+      ['SqliteStore', () => new SqliteStore({ memory: true })],
+    ])('should find a tenant\'s memories among many from another on %s', async (_name, createStore) => {
+      const parent = new Engram({ store: createStore() });
+      const a = parent.scope({ metadata: { tenant: 'a' } });
+      const b = parent.scope({ metadata: { tenant: 'b' } });
+      for (let i = 0; i < 20; i++) {
+        await a.store(`deploy script ${i}`, { skipSurprise: true });
+      }
+      await b.store('deploy with the blue pipeline', { skipSurprise: true });
+
+      const results = await b.recall('deploy', { k: 3 });
+
+      expect(results.map((m) => m.content)).toEqual(['deploy with the blue pipeline']);
+      await parent.close();
+    });
+
+    it('should keep scope metadata on update', async () => {
+      const alice = mem.scope({ namespace: 'team:1', metadata: { userId: 'alice' } });
+      const memory = await alice.store('Alice prefers tabs');
+
+      const updated = await alice.update(memory.id, { metadata: { userId: 'bob' } });
+      expect(updated.metadata.userId).toBe('alice');
+    });
+
+    it('should fall back to inherited namespaces in order', async () => {
+      await mem.scope({ namespace: 'org' }).store('Org deploys with kubernetes');
+      await mem.scope({ namespace: 'team' }).store('Team deploys with helm');
+      const user = mem.scope({ namespace: 'user', inherit: ['team', 'org'] });
+      await user.store('User deploys with kubectl');
+
+      const results = await user.recall('deploys', { k: 3 });
+      expect(results.map((m) => m.namespace)).toEqual(['user', 'team', 'org']);
+
+      // Own memories fill k first
+      expect((await user.recall('deploys', { k: 1 }))[0].namespace).toBe('user');
+
+      // Inherited memories are readable but not writable
+      const orgMemory = results[2];
+      expect(await user.get(orgMemory.id)).not.toBeNull();
+      await expect(user.update(orgMemory.id, { content: 'x' })).rejects.toMatchObject({
+        code: 'NOT_FOUND',
+      });
+      await expect(
+        user.recall('deploys', { namespace: 'other' }),
+      ).rejects.toMatchObject({ code: 'OUT_OF_SCOPE' });
+    });
+
+    it('should keep scope metadata when recalling a namespace list', async () => {
+      await mem.scope({ namespace: 'org' }).store('Org deploys with kubernetes');
+      await mem
+        .scope({ namespace: 'team', metadata: { userId: 'bob' } })
+        .store('Bob deploys with helm');
+      const alice = mem.scope({
+        namespace: 'team',
+        metadata: { userId: 'alice' },
+        inherit: ['org'],
+      });
+      await alice.store('Alice deploys with kubectl');
+
+      const results = await alice.recall('deploys', { namespace: ['team', 'org'], k: 5 });
+      expect(results.map((m) => m.content).sort()).toEqual([
+        'Alice deploys with kubectl',
+        'Org deploys with kubernetes',
+      ]);
+    });
+
+    it('should forward events to the parent engram', async () => {
+      const stored: string[] = [];
+      mem.on('stored', (memory) => stored.push(memory.namespace));
+
+      const scoped = mem.scope({ namespace: 'tenant' });
+      await scoped.store('Tenant memory');
+      await scoped.close();
+
+      // Closing a scope leaves the shared store usable
+      await mem.store('Root memory');
+      expect(stored).toEqual(['tenant', 'default']);
+    });
+  });
+
   describe('export/import workflow', () => {
     beforeEach(async () => {
       await mem.store('Memory 1', { category: 'fact' });
@@ -188,6 +188,30 @@ describe('Merge Integration Tests', () => {
       // Just verify structure
     });
 
+    it('should merge using the store vector index', async () => {
+      const vectors: Record<string, number[]> = {
+        'Deploy with vercel': [1, 0, 0],
+        'Deploy with vercel prod': [0.99, 0.1, 0],
+        'Project uses Postgres': [0, 1, 0],
+      };
+      const indexed = new Engram({
+        embed: async (text) => vectors[text] ?? [0, 0, 1],
+        store: new MemoryStore({ vectorIndex: true }),
+      });
+
+      await indexed.store('Deploy with vercel', { category: 'skill', importance: 0.9 });
+      await indexed.store('Deploy with vercel prod', { category: 'skill', importance: 0.5 });
+      await indexed.store('Project uses Postgres', { category: 'skill', importance: 0.5 });
+
+      const result = await indexed.merge({ similarityThreshold: 0.9 });
+
+      expect(result.merged).toBe(1);
+      expect((await indexed.list()).map((m) => m.content).sort()).toEqual([
+        'Deploy with vercel',
+        'Project uses Postgres',
+      ]);
+    });
+
     it('should handle large number of memories efficiently', async () => {
       // Create many similar memories
       for (let i = 0; i < 20; i++) {
@@ -0,0 +1,144 @@
+/**
+ * Tests for LLM query expansion and multi-query recall
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Engram, ConfigError } from '../src/index.js';
+import { MemoryStore } from '../src/stores/memory.js';
+import { expandQuery } from '../src/query-expansion.js';
+
+const expansionLLM = (response: string) => {
+  const prompts: string[] = [];
+  const llm = async (prompt: string): Promise<string> => {
+    prompts.push(prompt);
+    return response;
+  };
+  return { llm, prompts };
+};
+
+const setup = async (config: ConstructorParameters<typeof Engram>[0]) => {
+  const mem = new Engram({ store: new MemoryStore(), ...config });
+  await mem.store('Ship releases by running vercel --prod', {
+    importance: 0.3,
+    skipSurprise: true,
+  });
+  await mem.store('Team lunch is on Fridays', {
+    importance: 0.9,
+    skipSurprise: true,
+  });
+  return mem;
+};
+
+describe('expandQuery', () => {
+  it('should drop paraphrases that repeat the query', async () => {
+    const { llm } = expansionLLM(
+      '```json\n{"paraphrases": ["Deploy?", "how to ship", "how to ship", "release steps"]}\n```',
+    );
+
+    const expansion = await expandQuery('deploy?', llm, { paraphrases: 2 });
+    expect(expansion).toEqual({
+      paraphrases: ['how to ship', 'release steps'],
+      hypothetical: undefined,
+    });
+  });
+
+  it('should only ask for a hypothetical answer with hyde', async () => {
+    const { llm, prompts } = expansionLLM(
+      '{"paraphrases": [], "hypothetical": "Deploy with vercel"}',
+    );
+
+    expect((await expandQuery('deploy?', llm)).hypothetical).toBeUndefined();
+    expect(prompts[0]).not.toContain('"hypothetical"');
+
+    const expansion = await expandQuery('deploy?', llm, { hyde: true });
+    expect(expansion.hypothetical).toBe('Deploy with vercel');
+    expect(prompts[1]).toContain('"hypothetical"');
+  });
+
+  it('should throw on an unparseable response', async () => {
+    const { llm } = expansionLLM('no idea');
+    await expect(expandQuery('deploy?', llm)).rejects.toThrow();
+  });
+});
+
+describe('Recall with expandQuery', () => {
+  const paraphrases =
+    '{"paraphrases": ["how to ship releases", "vercel steps"]}';
+
+  it('should miss memories with no token overlap by default', async () => {
+    const { llm } = expansionLLM(paraphrases);
+    const mem = await setup({ llm });
+
+    const results = await mem.recall('deploy?', { k: 1 });
+    expect(results[0].content).toBe('Team lunch is on Fridays');
+  });
+
+  it('should find them through paraphrases', async () => {
+    const { llm } = expansionLLM(paraphrases);
+    const mem = await setup({ llm, expandQuery: true });
+
+    const results = await mem.recall('deploy?', { k: 1, explain: true });
+    expect(results[0].content).toBe('Ship releases by running vercel --prod');
+    expect(results[0].explanation).toContain(
+      'relevance fused over 3 queries (ranks: none, 1, 1)',
+    );
+    expect(results[0].explanation).toContain(
+      'expansions: "how to ship releases", "vercel steps"',
+    );
+  });
+
+  it('should embed the hypothetical answer with hyde', async () => {
+    const { llm } = expansionLLM(
+      '{"paraphrases": [], "hypothetical": "Run vercel --prod to ship"}',
+    );
+    const embedded: string[] = [];
+    const mem = await setup({
+      llm,
+      embed: async (text) => {
+        embedded.push(text);
+        if (text === 'deploy?') return [0.6, 0.8];
+        return text.includes('vercel') ? [1, 0] : [0, 1];
+      },
+    });
+
+    const results = await mem.recall('deploy?', {
+      k: 1,
+      expandQuery: { paraphrases: 0, hyde: true },
+      explain: true,
+    });
+    expect(embedded).toContain('Run vercel --prod to ship');
+    expect(results[0].content).toBe('Ship releases by running vercel --prod');
+    expect(results[0].explanation).toContain(
+      'hyde: "Run vercel --prod to ship"',
+    );
+  });
+
+  it('should recall with the original query when expansion fails', async () => {
+    const { llm } = expansionLLM('not json');
+    const mem = await setup({ llm, expandQuery: true });
+
+    const results = await mem.recall('deploy?', { k: 1, explain: true });
+    expect(results[0].content).toBe('Team lunch is on Fridays');
+    expect(results[0].explanation).not.toContain('fused over');
+  });
+
+  it('should require an llm for expandQuery', () => {
+    expect(
+      () => new Engram({ store: new MemoryStore(), expandQuery: true }),
+    ).toThrow(ConfigError);
+  });
+
+  it('should require an llm for expandQuery on a single call', async () => {
+    const mem = await setup({});
+
+    await expect(mem.recall('deploy?', { expandQuery: true })).rejects.toThrow(
+      ConfigError,
+    );
+    await expect(
+      mem.recallWithScores('deploy?', { expandQuery: { hyde: true } }),
+    ).rejects.toThrow(ConfigError);
+    await expect(
+      mem.recall('deploy?', { expandQuery: false }),
+    ).resolves.toHaveLength(2);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Tests for the reranker stage
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Engram, ConfigError } from '../src/index.js';
+import { MemoryStore } from '../src/stores/memory.js';
+import { llmReranker, crossEncoderReranker } from '../src/reranker.js';
+import { estimateTokens } from '../src/tokenizer.js';
+import type { Memory, RerankFunction } from '../src/types.js';
+
+const createMemory = (id: string, content: string): Memory => ({
+  id,
+  content,
+  category: 'fact',
+  source: 'test',
+  surprise: 0.5,
+  importance: 0.5,
+  accessCount: 0,
+  lastAccessed: Date.now(),
+  createdAt: Date.now(),
+  embedding: null,
+  metadata: {},
+  namespace: 'default',
+  ttl: null,
+  expiresAt: null,
+  version: 1,
+  history: [],
+});
+
+describe('llmReranker', () => {
+  it('should normalize 0-10 scores', async () => {
+    const rerank = llmReranker(async () => '```json\n[10, 0, 4]\n```');
+
+    const scores = await rerank('query', [
+      createMemory('1', 'a'),
+      createMemory('2', 'b'),
+      createMemory('3', 'c'),
+    ]);
+
+    expect(scores).toEqual([1, 0, 0.4]);
+  });
+
+  it('should throw on a score count mismatch', async () => {
+    const rerank = llmReranker(async () => '[5]');
+
+    await expect(
+      rerank('query', [createMemory('1', 'a'), createMemory('2', 'b')]),
+    ).rejects.toThrow();
+  });
+
+  it('should skip the LLM call for no candidates', async () => {
+    let called = false;
+    const rerank = llmReranker(async () => {
+      called = true;
+      return '[]';
+    });
+
+    expect(await rerank('query', [])).toEqual([]);
+    expect(called).toBe(false);
+  });
+});
+
+describe('crossEncoderReranker', () => {
+  it('should score each query/content pair', async () => {
+    const rerank = crossEncoderReranker((query, document) =>
+      document.includes(query) ? 1 : 0,
+    );
+
+    const scores = await rerank('tabs', [
+      createMemory('1', 'User prefers spaces'),
+      createMemory('2', 'User prefers tabs'),
+    ]);
+
+    expect(scores).toEqual([0, 1]);
+  });
+});
+
+describe('Recall with rerank', () => {
+  const setup = async (rerank: RerankFunction | 'llm', llm?: any) => {
+    const mem = new Engram({ store: new MemoryStore(), rerank, llm });
+    await mem.store('Deploy with vercel --prod', { importance: 0.9 });
+    await mem.store('Deploy previews go to staging', { importance: 0.1 });
+    return mem;
+  };
+
+  it('should reorder candidates before the top-k cut', async () => {
+    const mem = await setup(async (_query, candidates) =>
+      candidates.map((m) => (m.content.includes('staging') ? 1 : 0)),
+    );
+
+    const results = await mem.recall('deploy', { k: 1 });
+    expect(results[0].content).toBe('Deploy previews go to staging');
+  });
+
+  it('should explain both scores', async () => {
+    const mem = await setup(crossEncoderReranker(() => 0.75));
+
+    const results = await mem.recall('deploy', { explain: true });
+    expect(results[0].explanation).toMatch(/rerank_score: 0\.750 \(pre-rerank: \d\.\d{3}\)/);
+  });
+
+  it('should budget context by the reranked order', async () => {
+    const mem = await setup(async (_query, candidates) =>
+      candidates.map((m) => (m.content.includes('staging') ? 1 : 0)),
+    );
+    const maxTokens = estimateTokens(await mem.context('deploy', { k: 1 }));
+
+    const budgeted = await mem.context('deploy', { maxTokens });
+    expect(budgeted).toContain('staging');
+    expect(budgeted).not.toContain('vercel');
+
+    const full = await mem.context('deploy', { maxTokens: 1000 });
+    expect(full.indexOf('staging')).toBeLessThan(full.indexOf('vercel'));
+  });
+
+  it('should keep the blended ranking when the reranker fails', async () => {
+    const mem = await setup(async () => {
+      throw new Error('model offline');
+    });
+
+    const results = await mem.recall('deploy', { k: 1 });
+    expect(results[0].content).toBe('Deploy with vercel --prod');
+  });
+
+  it('should use the configured llm for rerank: "llm"', async () => {
+    const mem = await setup('llm', async (prompt: string) =>
+      prompt.includes('relevance judge')
+        ? prompt.indexOf('staging') < prompt.indexOf('vercel')
+          ? '[9, 1]'
+          : '[1, 9]'
+        : '[]',
+    );
+
+    const results = await mem.recall('deploy', { k: 1 });
+    expect(results[0].content).toBe('Deploy previews go to staging');
+  });
+
+  it('should require an llm for rerank: "llm"', () => {
+    expect(() => new Engram({ store: new MemoryStore(), rerank: 'llm' })).toThrow(
+      ConfigError,
+    );
+  });
+});
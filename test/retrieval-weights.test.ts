@@ -281,3 +281,218 @@ describe('Access Frequency Scoring', () => {
     expect(results[0].accessCount).toBeGreaterThan(20);
   });
 });
+
+describe('Namespace Weighting', () => {
+  const setup = async () => {
+    const store = new MemoryStore();
+    const mem = new Engram({ llm: mockLLM, store });
+    await mem.scope({ namespace: 'user:42' }).store('User deploys with vercel', {
+      importance: 0.5,
+    });
+    await mem.scope({ namespace: 'project:acme' }).store('Acme deploys with vercel', {
+      importance: 0.5,
+    });
+    await mem.scope({ namespace: 'global' }).store('Everyone deploys with vercel', {
+      importance: 0.5,
+    });
+    return mem;
+  };
+
+  it('should recall across several namespaces', async () => {
+    const mem = await setup();
+
+    const results = await mem.recall('deploys vercel', {
+      namespace: ['user:42', 'project:acme', 'global'],
+    });
+
+    expect(results.map((m) => m.namespace).sort()).toEqual([
+      'global',
+      'project:acme',
+      'user:42',
+    ]);
+  });
+
+  it('should scale scores by namespace weight', async () => {
+    const mem = await setup();
+
+    const results = await mem.recall('deploys vercel', {
+      namespace: ['user:42', 'project:acme', 'global'],
+      namespaceWeights: { 'user:42': 1.5, global: 0.5 },
+      explain: true,
+    });
+
+    expect(results.map((m) => m.namespace)).toEqual([
+      'user:42',
+      'project:acme',
+      'global',
+    ]);
+    expect(results[0].explanation).toContain('namespace: user:42 (weight 1.50x)');
+
+    // The weights line includes the multiplier, so its total is the score
+    const explanation = results[0].explanation!;
+    const score = explanation.match(/^retrieval_score: ([\d.]+)/)![1];
+    expect(explanation).toMatch(/^weights: \(.*\) × 1\.50 namespace = ([\d.]+)$/m);
+    expect(explanation.match(/ namespace = ([\d.]+)$/m)![1]).toBe(score);
+  });
+
+  it('should pass namespaces through context()', async () => {
+    const mem = await setup();
+
+    const context = await mem.context('deploys vercel', {
+      namespace: ['user:42', 'global'],
+      format: 'json',
+      includeMetadata: true,
+    });
+
+    const parsed = JSON.parse(context);
+    expect(parsed.map((m: any) => m.namespace).sort()).toEqual(['global', 'user:42']);
+  });
+});
+
+describe('Diversity (MMR)', () => {
+  const paraphrases = [
+    'User deploys to production with vercel',
+    'User deploys to production with vercel cli',
+    'User deploys to production using vercel',
+  ];
+  const distinct = 'Production deploys need a review from ops';
+
+  const setup = async (embed?: (text: string) => Promise<number[]>) => {
+    const mem = new Engram({ llm: mockLLM, store: new MemoryStore(), embed });
+    for (const content of [...paraphrases, distinct]) {
+      await mem.store(content, { importance: 0.5, skipSurprise: true });
+    }
+    return mem;
+  };
+
+  it('should fill k with paraphrases without diversity', async () => {
+    const mem = await setup();
+
+    const results = await mem.recall('deploys production vercel', { k: 3 });
+    expect(results.map((m) => m.content).sort()).toEqual([...paraphrases].sort());
+  });
+
+  it('should swap paraphrases for distinct memories with diversity', async () => {
+    const mem = await setup();
+
+    const results = await mem.recall('deploys production vercel', {
+      k: 2,
+      diversity: 0.5,
+    });
+    expect(results.map((m) => m.content)).toContain(distinct);
+    expect(paraphrases).toContain(results[0].content);
+  });
+
+  it('should compare embeddings when present', async () => {
+    const mem = await setup(async (text) =>
+      text.includes('ops') ? [0.6, 0.8] : [1, 0],
+    );
+
+    const context = await mem.context('deploys production vercel', {
+      k: 2,
+      diversity: 0.7,
+      format: 'json',
+    });
+
+    const parsed = JSON.parse(context);
+    expect(parsed.map((m: any) => m.content)).toContain(distinct);
+  });
+});
+
+describe('recallWithScores()', () => {
+  it('should return the score and its components', async () => {
+    const retrievalWeights = {
+      relevance: 0.6,
+      importance: 0.2,
+      recency: 0.1,
+      accessFrequency: 0.1,
+    };
+    const mem = new Engram({
+      llm: mockLLM,
+      store: new MemoryStore(),
+      retrievalWeights,
+    });
+    await mem.store('The sky is blue', { importance: 0.5, skipSurprise: true });
+
+    const [result] = await mem.recallWithScores('sky blue', { explain: true });
+    const { relevance, importance, recency, accessFrequency } =
+      result.components;
+
+    expect(result.memory.content).toBe('The sky is blue');
+    expect(result.score).toBeCloseTo(
+      0.6 * relevance +
+        0.2 * importance +
+        0.1 * recency +
+        0.1 * accessFrequency,
+    );
+    expect(result.matchedVia).toBe('keyword');
+    expect(result.memory.explanation).toContain('weights: 0.6 × ');
+    expect(result.memory.explanation).toContain('access_frequency:');
+  });
+
+  it('should drop results below minScore', async () => {
+    const mem = new Engram({ llm: mockLLM, store: new MemoryStore() });
+    await mem.store('The sky is blue', { importance: 0.5, skipSurprise: true });
+    await mem.store('Grass is green', { importance: 0.5, skipSurprise: true });
+
+    const all = await mem.recallWithScores('sky blue');
+    expect(all).toHaveLength(2);
+
+    const strong = await mem.recallWithScores('sky blue', {
+      minScore: (all[0].score + all[1].score) / 2,
+    });
+    expect(strong.map((r) => r.memory.content)).toEqual(['The sky is blue']);
+  });
+
+  it('should filter by until', async () => {
+    const mem = new Engram({ llm: mockLLM, store: new MemoryStore() });
+    const old = await mem.store('Old sky fact', { skipSurprise: true });
+    const cutoff = old.createdAt;
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await mem.store('New sky fact', { skipSurprise: true });
+
+    const results = await mem.recall('sky fact', { until: cutoff });
+    expect(results.map((m) => m.content)).toEqual(['Old sky fact']);
+  });
+
+  it('should report which search matched', async () => {
+    const mem = new Engram({
+      llm: mockLLM,
+      store: new MemoryStore(),
+      embed: async (text) => (text.includes('ocean') ? [0, 1] : [1, 0]),
+    });
+    await mem.store('The ocean is deep', { skipSurprise: true });
+    await mem.store('Water in the sea', { skipSurprise: true });
+
+    const results = await mem.recallWithScores('ocean');
+    const via = Object.fromEntries(
+      results.map((r) => [r.memory.content, r.matchedVia]),
+    );
+    expect(via).toEqual({
+      'The ocean is deep': 'vector',
+      'Water in the sea': 'vector',
+    });
+
+    // Ranked second by vector search, first by keyword search
+    const keyword = await mem.recallWithScores('deep');
+    const ocean = keyword.find((r) => r.memory.content === 'The ocean is deep');
+    expect(ocean?.matchedVia).toBe('keyword');
+  });
+
+  it('should keep scores for what afterRecall returns', async () => {
+    const mem = new Engram({
+      llm: mockLLM,
+      store: new MemoryStore(),
+      hooks: {
+        afterRecall: (memories) =>
+          memories.filter((m) => m.content.includes('blue')),
+      },
+    });
+    await mem.store('The sky is blue', { skipSurprise: true });
+    await mem.store('The sky is vast', { skipSurprise: true });
+
+    const results = await mem.recallWithScores('sky');
+    expect(results.map((r) => r.memory.content)).toEqual(['The sky is blue']);
+    expect(results[0].score).toBeGreaterThan(0);
+  });
+});
@@ -1,6 +1,17 @@
 import { describe, it, expect } from 'vitest';
-import { computeSurprise, scoreAndDecide } from '../src/scorer.js';
-import type { Memory, MemoryCandidate } from '../src/types.js';
+import {
+  computeSurprise,
+  scoreAndDecide,
+  detectConflict,
+  resolveSurpriseWeights,
+  resolveSurpriseThreshold,
+  blendImportance,
+  surpriseScorer,
+  densityScorer,
+  llmScorer,
+} from '../src/scorer.js';
+import { ConfigError } from '../src/errors.js';
+import type { Memory, MemoryCandidate, ScorerContext } from '../src/types.js';
 
 describe('Scorer', () => {
   const createMemory = (content: string, category = 'fact'): Memory => ({
@@ -200,4 +211,266 @@ describe('Scorer', () => {
       expect(result.explanation).toContain('importance');
     });
   });
+
+  describe('detectConflict', () => {
+    const candidate: MemoryCandidate = {
+      content: 'User now prefers spaces',
+      category: 'preference',
+    };
+
+    it('should classify close matches with the LLM', async () => {
+      const existing = [createMemory('User prefers tabs', 'preference')];
+      const llm = async () => '{"relation": "contradiction"}';
+
+      const result = await detectConflict(candidate, existing, llm, 0.4);
+
+      expect(result?.relation).toBe('contradiction');
+      expect(result?.memory).toBe(existing[0]);
+      expect(result?.similarity).toBeGreaterThanOrEqual(0.4);
+    });
+
+    it('should accept a bare relation word', async () => {
+      const existing = [createMemory('User prefers tabs', 'preference')];
+      const llm = async () => 'Refinement.';
+
+      const result = await detectConflict(candidate, existing, llm, 0.4);
+      expect(result?.relation).toBe('refinement');
+    });
+
+    it('should skip the LLM below the similarity threshold', async () => {
+      const existing = [createMemory('User prefers tabs', 'preference')];
+      let called = false;
+      const llm = async () => {
+        called = true;
+        return '{"relation": "contradiction"}';
+      };
+
+      const result = await detectConflict(candidate, existing, llm, 0.9);
+
+      expect(result).toBeNull();
+      expect(called).toBe(false);
+    });
+
+    it('should only compare within the same category', async () => {
+      const existing = [createMemory('User prefers tabs', 'fact')];
+      const llm = async () => '{"relation": "contradiction"}';
+
+      const result = await detectConflict(candidate, existing, llm, 0.4);
+      expect(result).toBeNull();
+    });
+
+    it('should return null when the LLM fails', async () => {
+      const existing = [createMemory('User prefers tabs', 'preference')];
+      const llm = async (): Promise<string> => {
+        throw new Error('LLM down');
+      };
+
+      const result = await detectConflict(candidate, existing, llm, 0.4);
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('surprise weights', () => {
+    const candidate: MemoryCandidate = { content: 'User prefers TypeScript', category: 'fact' };
+    const existing = [createMemory('User prefers JavaScript', 'preference')];
+
+    it('should combine components with the configured weights', async () => {
+      const keywordOnly = await computeSurprise(candidate, existing, undefined, false, undefined, {
+        withoutEmbeddings: { keyword: 1, rarity: 0 },
+      });
+      const rarityOnly = await computeSurprise(candidate, existing, undefined, false, undefined, {
+        withoutEmbeddings: { keyword: 0, rarity: 1 },
+      });
+
+      // Jaccard 2/4 → keyword novelty 0.5; no other facts → rarity 1
+      expect(keywordOnly.surprise).toBeCloseTo(0.5, 5);
+      expect(rarityOnly.surprise).toBeCloseTo(1, 5);
+      expect(keywordOnly.explanation).toContain('weights 1.00/0.00');
+    });
+
+    it('should normalize weights to sum to 1', () => {
+      expect(resolveSurpriseWeights({ semantic: 2, keyword: 1, rarity: 1 }, true)).toEqual({
+        semantic: 0.5,
+        keyword: 0.25,
+        rarity: 0.25,
+      });
+      expect(resolveSurpriseWeights({}, false)).toEqual({ semantic: 0, keyword: 0.8, rarity: 0.2 });
+    });
+
+    it('should show the weights used with embeddings', async () => {
+      const embed = async () => [1, 0];
+      const result = await computeSurprise(candidate, [], embed, false, undefined, {
+        semantic: 0.5,
+        keyword: 0.5,
+        rarity: 0,
+      });
+      expect(result.explanation).toContain('weights 0.50/0.50/0.00');
+    });
+  });
+
+  describe('resolveSurpriseThreshold', () => {
+    const config = {
+      surpriseThreshold: 0.3,
+      categoryThresholds: { skill: 0.05, episode: 0.6 },
+      sourceThresholds: { slack: 0.8 },
+    };
+
+    it('should prefer source, then category, then the global threshold', () => {
+      expect(resolveSurpriseThreshold(config, 'skill', 'slack')).toEqual({
+        threshold: 0.8,
+        scope: 'source "slack"',
+      });
+      expect(resolveSurpriseThreshold(config, 'skill', 'cli')).toEqual({
+        threshold: 0.05,
+        scope: 'category "skill"',
+      });
+      expect(resolveSurpriseThreshold(config, 'fact')).toEqual({ threshold: 0.3 });
+    });
+
+    it('should name the threshold in the store decision', async () => {
+      const result = await scoreAndDecide(
+        { content: 'Standup ran long', category: 'episode' },
+        [],
+        0.6,
+        1.0,
+        undefined,
+        true,
+        0,
+        { thresholdScope: 'category "episode"' },
+      );
+      expect(result.explanation).toContain('>= threshold 0.6 for category "episode"');
+    });
+  });
+
+  describe('blendImportance', () => {
+    const candidate: MemoryCandidate = {
+      content: 'Production DB password rotates every Monday',
+      category: 'fact',
+      importance: 5,
+      rationale: 'security schedule',
+    };
+
+    it('should mix the scored importance with the LLM rating', () => {
+      const result = blendImportance(candidate, 0.2, 0.5);
+      expect(result.importance).toBeCloseTo(0.6);
+      expect(result.explanation).toBe(
+        'importance: 0.600 = 0.50 × scored 0.200 + 0.50 × LLM rating 5/5 "security schedule"',
+      );
+    });
+
+    it('should cap the scored importance at 1 before blending', () => {
+      // surprise 0.9 × skill boost 1.3
+      const result = blendImportance({ ...candidate, importance: 1 }, 1.17, 0.5);
+      expect(result.importance).toBeCloseTo(0.5);
+      expect(result.explanation).toContain('0.50 × scored 1.000');
+    });
+
+    it('should keep the scored importance without a rating or weight', () => {
+      expect(blendImportance(candidate, 0.2, 0)).toEqual({ importance: 0.2 });
+      expect(
+        blendImportance({ content: 'Hi', category: 'episode' }, 0.2, 0.5),
+      ).toEqual({ importance: 0.2 });
+    });
+  });
+
+  describe('Scorer strategies', () => {
+    const context = (existing: Memory[], overrides: Partial<ScorerContext> = {}): ScorerContext => ({
+      existing,
+      categoryCount: existing.length,
+      categoryBoost: 1.0,
+      threshold: 0.3,
+      explain: true,
+      ...overrides,
+    });
+    const candidate: MemoryCandidate = { content: 'User prefers dark mode', category: 'preference' };
+
+    it('should match scoreAndDecide with the default scorer', async () => {
+      const existing = [createMemory('User prefers light themes', 'preference')];
+
+      const viaScorer = await surpriseScorer().score(candidate, context(existing));
+      const direct = await scoreAndDecide(candidate, existing, 0.3, 1.0, undefined, true, 1);
+      expect(viaScorer).toEqual(direct);
+    });
+
+    it('should average similarity over the k nearest with densityScorer', async () => {
+      // One close match among unrelated memories
+      const sparse = [
+        createMemory('User prefers dark mode editors'),
+        createMemory('Deploy with vercel'),
+        createMemory('CI runs on GitHub Actions'),
+      ];
+      // Several moderately close matches
+      const crowded = [
+        createMemory('User prefers dark terminals'),
+        createMemory('User prefers dark slides'),
+        createMemory('User prefers dark dashboards'),
+      ];
+
+      const scorer = densityScorer({ k: 3 });
+      const sparseResult = await scorer.score(candidate, context(sparse));
+      const crowdedResult = await scorer.score(candidate, context(crowded));
+
+      // The single max similarity ranks them the other way round
+      const sparseMax = await computeSurprise(candidate, sparse);
+      const crowdedMax = await computeSurprise(candidate, crowded);
+      expect(sparseMax.surprise).toBeLessThan(crowdedMax.surprise);
+
+      expect(sparseResult.surprise).toBeGreaterThan(crowdedResult.surprise);
+      expect(crowdedResult.explanation).toContain('of 3 nearest');
+      expect(sparseResult.closestExisting?.content).toBe('User prefers dark mode editors');
+    });
+
+    it('should treat an empty store as novel with densityScorer', async () => {
+      const result = await densityScorer().score(candidate, context([]));
+      expect(result.surprise).toBe(1);
+      expect(result.stored).toBe(true);
+    });
+
+    it('should reject exact duplicates with every scorer', async () => {
+      const existing = [createMemory('User prefers dark mode', 'preference')];
+      const llm = async () => '{"novelty": 1}';
+
+      for (const scorer of [surpriseScorer(), densityScorer(), llmScorer(llm)]) {
+        const result = await scorer.score(candidate, context(existing));
+        expect(result.stored).toBe(false);
+        expect(result.surprise).toBe(0);
+      }
+    });
+
+    it('should let the LLM judge novelty against similar memories', async () => {
+      const prompts: string[] = [];
+      const llm = async (prompt: string) => {
+        prompts.push(prompt);
+        return '```json\n{"novelty": 0.2, "reason": "only reworded"}\n```';
+      };
+      const existing = [
+        createMemory('User likes dark mode', 'preference'),
+        createMemory('Deploy with vercel'),
+      ];
+
+      const result = await llmScorer(llm).score(
+        candidate,
+        context(existing, { categoryBoost: 1.5, thresholdScope: 'category "preference"' }),
+      );
+
+      expect(prompts[0]).toContain('- User likes dark mode');
+      expect(prompts[0]).not.toContain('vercel');
+      expect(prompts[0]).toContain('CANDIDATE: User prefers dark mode');
+      expect(result).toMatchObject({ surprise: 0.2, stored: false, reason: 'below_threshold' });
+      expect(result.importance).toBeCloseTo(0.3, 5);
+      expect(result.explanation).toContain('LLM-judged against 1 similar: only reworded');
+      expect(result.explanation).toContain('< threshold 0.3 for category "preference"');
+    });
+
+    it('should fall back when the LLM answer cannot be parsed', async () => {
+      const fallback = { score: () => ({ surprise: 0.9, importance: 0.9, stored: true }) };
+
+      const result = await llmScorer(async () => 'very novel', { fallback }).score(candidate, context([]));
+      expect(result.surprise).toBe(0.9);
+    });
+
+    it('should validate densityScorer k', () => {
+      expect(() => densityScorer({ k: 0 })).toThrow(ConfigError);
+    });
+  });
 });
@@ -99,6 +99,16 @@ describe('MemoryStore', () => {
       expect(await store.has('2')).toBe(true);
       expect(await store.has('1')).toBe(false);
     });
+
+    it('should record accesses with touch', async () => {
+      await store.putMany([createMemory('1', 'first'), createMemory('2', 'second')]);
+
+      await store.touch(['1', '1', '2', 'unknown'], 5_000_000_000_000);
+
+      expect((await store.get('1'))!.accessCount).toBe(2);
+      expect((await store.get('2'))!.accessCount).toBe(1);
+      expect((await store.get('2'))!.lastAccessed).toBe(5_000_000_000_000);
+    });
   });
 
   describe('List and filter', () => {
@@ -123,6 +133,16 @@ describe('MemoryStore', () => {
       expect(facts.every((m) => m.category === 'fact')).toBe(true);
     });
 
+    it('should filter by source', async () => {
+      await store.put({ ...createMemory('5', 'imported'), source: 'import' });
+
+      const imported = await store.list({ source: 'import' });
+      expect(imported.map((m) => m.id)).toEqual(['5']);
+
+      const either = await store.list({ source: ['import', 'test'] });
+      expect(either).toHaveLength(5);
+    });
+
     it('should filter by minimum importance', async () => {
       const important = await store.list({ minImportance: 0.75 });
       expect(important).toHaveLength(2); // 0.8 and 0.9
@@ -176,6 +196,113 @@ describe('MemoryStore', () => {
       expect(results[0].content).toContain('TypeScript');
       expect(results[0].content).toContain('programming');
     });
+
+    it('should filter by namespace and category before taking top k', async () => {
+      await store.putMany([
+        { ...createMemory('5', 'TypeScript in ns1'), namespace: 'ns1' },
+        { ...createMemory('6', 'TypeScript skill'), category: 'skill' },
+      ]);
+
+      const byNamespace = await store.search('TypeScript', 1, { namespace: 'ns1' });
+      expect(byNamespace.map((m) => m.id)).toEqual(['5']);
+
+      const byCategory = await store.search('TypeScript', 1, {
+        namespace: 'default',
+        categories: ['skill'],
+      });
+      expect(byCategory.map((m) => m.id)).toEqual(['6']);
+    });
+  });
+
+  describe('Vector search', () => {
+    beforeEach(async () => {
+      await store.putMany([
+        { ...createMemory('1', 'north'), embedding: [1, 0] },
+        { ...createMemory('2', 'east'), embedding: [0, 1] },
+        { ...createMemory('3', 'north-east'), embedding: [1, 1] },
+        createMemory('4', 'no embedding'),
+        { ...createMemory('5', 'other ns'), embedding: [1, 0], namespace: 'other' },
+      ]);
+    });
+
+    it('should rank by cosine similarity', async () => {
+      const results = await store.vectorSearch([1, 0.1], 3, { namespace: 'default' });
+      expect(results.map((m) => m.id)).toEqual(['1', '3', '2']);
+    });
+
+    it('should skip memories without embeddings', async () => {
+      const results = await store.vectorSearch([1, 0], 10, { namespace: 'default' });
+      expect(results.map((m) => m.id)).not.toContain('4');
+    });
+
+    it('should respect namespace', async () => {
+      const results = await store.vectorSearch([1, 0], 10, { namespace: 'other' });
+      expect(results.map((m) => m.id)).toEqual(['5']);
+    });
+
+    it('should filter by category', async () => {
+      await store.put({
+        ...createMemory('6', 'east skill'),
+        embedding: [0, 1],
+        category: 'skill',
+      });
+
+      const results = await store.vectorSearch([1, 0], 1, { categories: ['skill'] });
+      expect(results.map((m) => m.id)).toEqual(['6']);
+    });
+  });
+
+  describe('Vector index', () => {
+    it('should return null from nearest() without an index', async () => {
+      expect(await store.nearest([1, 0], 5)).toBeNull();
+    });
+
+    it('should keep the index in sync with writes', async () => {
+      const indexed = new MemoryStore({ vectorIndex: true });
+      await indexed.putMany([
+        { ...createMemory('1', 'north'), embedding: [1, 0] },
+        { ...createMemory('2', 'east'), embedding: [0, 1] },
+      ]);
+      expect((await indexed.vectorSearch([1, 0.1], 1)).map((m) => m.id)).toEqual(['1']);
+
+      await indexed.delete('1');
+      await indexed.put({ ...createMemory('3', 'north-east'), embedding: [1, 1] });
+
+      const neighbors = await indexed.nearest([1, 0.1], 2);
+      expect(neighbors?.map((n) => n.memory.id)).toEqual(['3', '2']);
+    });
+
+    it('should widen the index search to satisfy a category filter', async () => {
+      const indexed = new MemoryStore({ vectorIndex: true });
+      await indexed.putMany([
+        ...Array.from({ length: 20 }, (_, i) => ({
+          ...createMemory(`f${i}`, `fact ${i}`),
+          embedding: [1, i / 100],
+        })),
+        { ...createMemory('s', 'skill'), embedding: [0, 1], category: 'skill' as const },
+      ]);
+
+      const neighbors = await indexed.nearest([1, 0], 1, { categories: ['skill'] });
+      expect(neighbors?.map((n) => n.memory.id)).toEqual(['s']);
+    });
+
+    it('should export and import the graph', async () => {
+      const memories = [
+        { ...createMemory('1', 'north'), embedding: [1, 0] },
+        { ...createMemory('2', 'east'), embedding: [0, 1] },
+      ];
+      const source = new MemoryStore({ vectorIndex: true });
+      await source.putMany(memories);
+      await source.nearest([1, 0], 1);
+      const snapshot = source.exportVectorIndex()!;
+
+      const target = new MemoryStore({ vectorIndex: true });
+      await target.putMany(memories);
+      expect(target.importVectorIndex(snapshot)).toBe(true);
+
+      await target.delete('2');
+      expect(target.importVectorIndex(snapshot)).toBe(false);
+    });
   });
 
   describe('Count and stats', () => {
@@ -0,0 +1,161 @@
+/**
+ * Metadata filter operators — every store must return the same memories
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MemoryStore } from '../../src/stores/memory.js';
+import { JsonFileStore } from '../../src/stores/json-file.js';
+import { SqliteStore } from '../../src/stores/sqlite.js';
+import { matchesMetadata } from '../../src/metadata-filter.js';
+import { Engram, FilterError } from '../../src/index.js';
+import type { Memory, MetadataFilter, StoreAdapter } from '../../src/types.js';
+
+const createMemory = (id: string, metadata: Record<string, any>): Memory => ({
+  id,
+  content: `Memory ${id}`,
+  category: 'fact',
+  source: 'test',
+  surprise: 0.5,
+  importance: 0.5,
+  accessCount: 0,
+  lastAccessed: Date.now(),
+  createdAt: Date.now(),
+  embedding: null,
+  metadata,
+  namespace: 'default',
+  ttl: null,
+  expiresAt: null,
+  version: 1,
+  history: [],
+});
+
+const fixtures: Record<string, Record<string, any>> = {
+  a: {
+    priority: 3,
+    status: 'open',
+    tags: ['auth', 'bug'],
+    author: { team: 'web' },
+  },
+  b: {
+    priority: 7,
+    status: 'closed',
+    tags: ['deploy'],
+    author: { team: 'infra' },
+  },
+  c: { priority: '7', status: 'open', note: 'see auth.ts', pinned: true },
+  d: { status: null, pinned: false, tags: [] },
+};
+
+// [filter, expected ids]
+const cases: [string, MetadataFilter, string[]][] = [
+  ['plain equality', { status: 'open' }, ['a', 'c']],
+  ['no type coercion', { priority: 7 }, ['b']],
+  ['null equality', { status: null }, ['d']],
+  ['boolean equality', { pinned: true }, ['c']],
+  ['$ne includes missing paths', { status: { $ne: 'open' } }, ['b', 'd']],
+  ['$in', { status: { $in: ['closed', null] } }, ['b', 'd']],
+  ['$nin', { status: { $nin: ['open'] } }, ['b', 'd']],
+  ['$gt on numbers only', { priority: { $gt: 3 } }, ['b']],
+  ['$gte and $lte together', { priority: { $gte: 3, $lte: 7 } }, ['a', 'b']],
+  ['$lt on strings', { status: { $lt: 'open' } }, ['b']],
+  ['$exists', { tags: { $exists: true } }, ['a', 'b', 'd']],
+  ['$exists: false', { pinned: { $exists: false } }, ['a', 'b']],
+  ['$contains array element', { tags: { $contains: 'auth' } }, ['a']],
+  ['$contains substring', { note: { $contains: 'auth' } }, ['c']],
+  ['dotted paths', { 'author.team': 'infra' }, ['b']],
+  ['nested object equality', { author: { team: 'web' } }, ['a']],
+  ['array equality', { tags: [] }, ['d']],
+  ['$or', { $or: [{ 'author.team': 'web' }, { pinned: true }] }, ['a', 'c']],
+  [
+    '$and with $not',
+    { $and: [{ status: 'open' }, { $not: { tags: { $contains: 'bug' } } }] },
+    ['c'],
+  ],
+  ['empty $or matches nothing', { $or: [] }, []],
+];
+
+let dir: string;
+
+const stores: [string, () => StoreAdapter][] = [
+  ['MemoryStore', () => new MemoryStore()],
+  ['JsonFileStore', () => new JsonFileStore(join(dir, 'memories.json'))],
+  ['SqliteStore', () => new SqliteStore({ memory: true })],
+];
+
+describe.each(stores)('%s metadata filters', (_name, createStore) => {
+  let store: StoreAdapter;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'engram-filter-'));
+    store = createStore();
+    for (const [id, metadata] of Object.entries(fixtures)) {
+      await store.put(createMemory(id, metadata));
+    }
+  });
+
+  afterEach(async () => {
+    await store.close?.();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it.each(cases)('%s', async (_case, filter, expected) => {
+    const results = await store.list({ metadata: filter });
+    expect(results.map((m) => m.id).sort()).toEqual(expected);
+  });
+});
+
+describe('matchesMetadata', () => {
+  it('should agree with the store cases in memory', () => {
+    for (const [, filter, expected] of cases) {
+      const ids = Object.entries(fixtures)
+        .filter(([, metadata]) => matchesMetadata(metadata, filter))
+        .map(([id]) => id);
+      expect(ids).toEqual(expected);
+    }
+  });
+
+  it('should reject unknown operators', () => {
+    expect(() => matchesMetadata({}, { status: { $regex: 'o' } })).toThrow(
+      FilterError,
+    );
+    expect(() => matchesMetadata({}, { $nor: [] })).toThrow(FilterError);
+  });
+});
+
+describe('recall() with metadata operators', () => {
+  it('should filter candidates', async () => {
+    const mem = new Engram({ store: new SqliteStore({ memory: true }) });
+    await mem.store('Deploy notes for web', { metadata: { priority: 2 } });
+    await mem.store('Deploy notes for infra', { metadata: { priority: 8 } });
+
+    const results = await mem.recall('deploy notes', {
+      metadata: { priority: { $gte: 5 } },
+    });
+    expect(results.map((m) => m.content)).toEqual(['Deploy notes for infra']);
+
+    const listed = await mem.list({ metadata: { priority: { $lt: 5 } } });
+    expect(listed.map((m) => m.content)).toEqual(['Deploy notes for web']);
+    await mem.close();
+  });
+});
+
+describe('forgetWhere() with metadata operators', () => {
+  it('should only delete matching memories', async () => {
+    const mem = new Engram({ store: new SqliteStore({ memory: true }) });
+    await mem.store('Keep this note', { metadata: { userId: 7 } });
+    await mem.store('Forget this note', { metadata: { userId: 42 } });
+
+    const result = await mem.forgetWhere({
+      metadata: { userId: { $gte: 40 } },
+    });
+
+    expect(result.pruned).toBe(1);
+    expect((await mem.list()).map((m) => m.content)).toEqual([
+      'Keep this note',
+    ]);
+    await mem.close();
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Search filters — every store must search the same memories
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MemoryStore } from '../../src/stores/memory.js';
+import { JsonFileStore } from '../../src/stores/json-file.js';
+import { SqliteStore } from '../../src/stores/sqlite.js';
+import type { Memory, StoreAdapter } from '../../src/types.js';
+
+const createMemory = (
+  id: string,
+  namespace: string,
+  metadata: Record<string, any> = {},
+): Memory => ({
+  id,
+  content: `Deploy notes for ${id}`,
+  category: 'fact',
+  source: 'test',
+  surprise: 0.5,
+  importance: 0.5,
+  accessCount: 0,
+  lastAccessed: Date.now(),
+  createdAt: Date.now(),
+  embedding: [1, id.length, 0.5],
+  metadata,
+  namespace,
+  ttl: null,
+  expiresAt: null,
+  version: 1,
+  history: [],
+});
+
+let dir: string;
+
+const stores: [string, () => StoreAdapter][] = [
+  ['MemoryStore', () => new MemoryStore()],
+  [
+    'MemoryStore with a vector index',
+    () => new MemoryStore({ vectorIndex: true }),
+  ],
+  ['JsonFileStore', () => new JsonFileStore(join(dir, 'memories.json'))],
+  ['SqliteStore', () => new SqliteStore({ memory: true })],
+  [
+    'SqliteStore with a vector index',
+    () => new SqliteStore({ memory: true, vectorIndex: true }),
+  ],
+];
+
+describe.each(stores)('%s search filters', (_name, createStore) => {
+  let store: StoreAdapter;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'engram-search-'));
+    store = createStore();
+    await store.putMany([
+      createMemory('home', 'default'),
+      createMemory('team', 'team'),
+    ]);
+  });
+
+  afterEach(async () => {
+    await store.close?.();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should search every namespace without one', async () => {
+    const keyword = await store.search('deploy notes', 5);
+    const vector = await store.vectorSearch!([1, 4, 0.5], 5);
+
+    expect(keyword.map((m) => m.id).sort()).toEqual(['home', 'team']);
+    expect(vector.map((m) => m.id).sort()).toEqual(['home', 'team']);
+  });
+
+  it('should search only the given namespace', async () => {
+    const keyword = await store.search('deploy notes', 5, {
+      namespace: 'team',
+    });
+    const vector = await store.vectorSearch!([1, 4, 0.5], 5, {
+      namespace: 'team',
+    });
+
+    expect(keyword.map((m) => m.id)).toEqual(['team']);
+    expect(vector.map((m) => m.id)).toEqual(['team']);
+  });
+
+  it('should apply metadata before taking the top k', async () => {
+    await store.putMany([
+      ...Array.from({ length: 10 }, (_, i) =>
+        createMemory(`other-${i}`, 'team', { tenant: 'a' }),
+      ),
+      createMemory('mine', 'team', { tenant: 'b' }),
+    ]);
+    const filter = { namespace: 'team', metadata: { tenant: { $in: ['b'] } } };
+
+    const keyword = await store.search('deploy notes', 1, filter);
+    const vector = await store.vectorSearch!([1, 10, 0.5], 1, filter);
+
+    expect(keyword.map((m) => m.id)).toEqual(['mine']);
+    expect(vector.map((m) => m.id)).toEqual(['mine']);
+  });
+
+  it('should count categories with the same filter', async () => {
+    await store.put(createMemory('mine', 'team', { tenant: 'b' }));
+
+    expect(await store.countByCategory!()).toEqual({ fact: 3 });
+    expect(await store.countByCategory!({ namespace: 'team' })).toEqual({
+      fact: 2,
+    });
+    expect(
+      await store.countByCategory!({
+        namespace: 'team',
+        metadata: { tenant: 'b' },
+      }),
+    ).toEqual({ fact: 1 });
+  });
+});
@@ -0,0 +1,321 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import Database from 'better-sqlite3';
+import { SqliteStore } from '../../src/stores/sqlite.js';
+import type { Memory } from '../../src/types.js';
+
+describe('SqliteStore', () => {
+  let store: SqliteStore;
+
+  const createMemory = (id: string, content: string): Memory => ({
+    id,
+    content,
+    category: 'fact',
+    source: 'test',
+    surprise: 0.5,
+    importance: 0.5,
+    accessCount: 0,
+    lastAccessed: Date.now(),
+    createdAt: Date.now(),
+    embedding: null,
+    metadata: {},
+    namespace: 'default',
+    ttl: null,
+    expiresAt: null,
+    version: 1,
+    history: [],
+  });
+
+  beforeEach(() => {
+    store = new SqliteStore({ memory: true });
+  });
+
+  afterEach(async () => {
+    await store.close();
+  });
+
+  describe('Full-text search', () => {
+    beforeEach(async () => {
+      await store.putMany([
+        createMemory('1', 'Project uses PostgreSQL 16 for the main database'),
+        createMemory('2', 'Deploy with vercel --prod after running tests'),
+        createMemory('3', 'The auth_token expires after one hour'),
+      ]);
+    });
+
+    it('should match multi-word questions on any token', async () => {
+      const results = await store.search('which database does the project use?', 5);
+      expect(results.map((m) => m.id)).toEqual(['1']);
+    });
+
+    it('should rank by BM25', async () => {
+      await store.put(
+        createMemory('4', 'Database backups run nightly, database is large'),
+      );
+
+      const results = await store.search('database', 5);
+      expect(results.map((m) => m.id)).toEqual(['4', '1']);
+    });
+
+    it('should tokenize like tokenizer.ts', async () => {
+      expect((await store.search('auth_token', 5)).map((m) => m.id)).toEqual(['3']);
+      // Stopwords only — nothing to match
+      expect(await store.search('the and of', 5)).toEqual([]);
+    });
+
+    it('should stay in sync on replace and delete', async () => {
+      await store.put({ ...createMemory('2', 'Deploy with netlify') });
+      expect(await store.search('vercel', 5)).toEqual([]);
+      expect((await store.search('netlify', 5)).map((m) => m.id)).toEqual(['2']);
+
+      await store.delete('2');
+      expect(await store.search('netlify', 5)).toEqual([]);
+
+      await store.deleteMany(['1']);
+      expect(await store.search('postgresql', 5)).toEqual([]);
+    });
+
+    it('should limit results', async () => {
+      const results = await store.search('database vercel auth', 2);
+      expect(results).toHaveLength(2);
+    });
+
+    it('should filter by namespace and category', async () => {
+      await store.putMany([
+        { ...createMemory('4', 'Tenant database'), namespace: 'tenant' },
+        { ...createMemory('5', 'Database tuning'), category: 'skill' },
+      ]);
+
+      expect(
+        (await store.search('database', 5, { namespace: 'tenant' })).map((m) => m.id),
+      ).toEqual(['4']);
+      expect(
+        (await store.search('database', 5, { categories: ['skill'] })).map((m) => m.id),
+      ).toEqual(['5']);
+    });
+
+    it('should stay fast when thousands of rows match', async () => {
+      // MATCH must run once, not once per row in the namespace
+      await store.putMany(
+        Array.from({ length: 4000 }, (_, i) =>
+          createMemory(`bulk-${i}`, `Deploy notes ${i} for the database`),
+        ),
+      );
+
+      const start = performance.now();
+      const results = await store.search('deploy database notes', 10);
+
+      expect(results).toHaveLength(10);
+      expect(performance.now() - start).toBeLessThan(500);
+    });
+  });
+
+  describe('Vector search', () => {
+    beforeEach(async () => {
+      await store.putMany([
+        { ...createMemory('1', 'north'), embedding: [1, 0, 0] },
+        { ...createMemory('2', 'east'), embedding: [0, 1, 0] },
+        { ...createMemory('3', 'north-east'), embedding: [1, 1, 0] },
+        createMemory('4', 'no embedding'),
+        {
+          ...createMemory('5', 'other ns'),
+          embedding: [1, 0, 0],
+          namespace: 'other',
+        },
+      ]);
+    });
+
+    it('should rank by cosine similarity', async () => {
+      const results = await store.vectorSearch([1, 0.1, 0], 2, { namespace: 'default' });
+      expect(results.map((m) => m.id)).toEqual(['1', '3']);
+      expect(results[0].embedding).toEqual([1, 0, 0]);
+    });
+
+    it('should respect namespace', async () => {
+      const results = await store.vectorSearch([1, 0, 0], 10, { namespace: 'other' });
+      expect(results.map((m) => m.id)).toEqual(['5']);
+    });
+
+    it('should filter by category', async () => {
+      await store.put({
+        ...createMemory('6', 'east skill'),
+        embedding: [0, 1, 0],
+        category: 'skill',
+      });
+
+      const results = await store.vectorSearch([1, 0, 0], 1, { categories: ['skill'] });
+      expect(results.map((m) => m.id)).toEqual(['6']);
+
+      const indexed = new SqliteStore({ memory: true, vectorIndex: true });
+      await indexed.putMany([
+        { ...createMemory('1', 'north'), embedding: [1, 0, 0] },
+        { ...createMemory('2', 'east'), embedding: [0, 1, 0], category: 'skill' },
+      ]);
+      const neighbors = await indexed.nearest([1, 0, 0], 1, { categories: ['skill'] });
+      await indexed.close();
+      expect(neighbors?.map((n) => n.memory.id)).toEqual(['2']);
+    });
+
+    it('should skip mismatched dimensions', async () => {
+      expect(await store.vectorSearch([1, 0], 10)).toEqual([]);
+    });
+  });
+
+  describe('Vector index', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'engram-sqlite-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    const snapshotCount = (path: string): number => {
+      const raw = new Database(path);
+      const row = raw.prepare('SELECT COUNT(*) AS n FROM vector_index').get() as {
+        n: number;
+      };
+      raw.close();
+      return row.n;
+    };
+
+    it('should return null from nearest() without an index', async () => {
+      expect(await store.nearest([1, 0, 0], 5)).toBeNull();
+    });
+
+    it('should answer nearest() from the HNSW index', async () => {
+      const indexed = new SqliteStore({ memory: true, vectorIndex: true });
+      await indexed.putMany([
+        { ...createMemory('1', 'north'), embedding: [1, 0, 0] },
+        { ...createMemory('2', 'east'), embedding: [0, 1, 0] },
+      ]);
+      // Maintained incrementally after the first search
+      await indexed.nearest([1, 0, 0], 1);
+      await indexed.put({ ...createMemory('3', 'up'), embedding: [0, 0, 1] });
+      await indexed.delete('1');
+
+      const neighbors = await indexed.nearest([0.1, 0, 1], 2);
+      await indexed.close();
+
+      expect(neighbors?.map((n) => n.memory.id)).toEqual(['3', '2']);
+      expect(neighbors?.[0].similarity).toBeGreaterThan(0.9);
+    });
+
+    it('should persist the graph on close and drop it on writes', async () => {
+      const path = join(dir, 'index.db');
+      const first = new SqliteStore({ path, wal: false, vectorIndex: true });
+      await first.putMany([
+        { ...createMemory('1', 'north'), embedding: [1, 0, 0] },
+        { ...createMemory('2', 'east'), embedding: [0, 1, 0] },
+      ]);
+      await first.vectorSearch([1, 0, 0], 1);
+      await first.close();
+      expect(snapshotCount(path)).toBe(1);
+
+      const second = new SqliteStore({ path, wal: false, vectorIndex: true });
+      expect((await second.vectorSearch([0, 1, 0], 1)).map((m) => m.id)).toEqual([
+        '2',
+      ]);
+      await second.put({ ...createMemory('3', 'up'), embedding: [0, 0, 1] });
+      expect(snapshotCount(path)).toBe(0);
+      await second.close();
+    });
+  });
+
+  describe('Access tracking', () => {
+    it('should record accesses with touch in one transaction', async () => {
+      await store.putMany([createMemory('1', 'first'), createMemory('2', 'second')]);
+      const before = (await store.get('1'))!.lastAccessed;
+
+      await store.touch(['1', '1', '2', 'unknown'], before + 1000);
+      await store.touch(['2'], before - 1000);
+
+      const first = (await store.get('1'))!;
+      const second = (await store.get('2'))!;
+      expect(first.accessCount).toBe(2);
+      expect(first.lastAccessed).toBe(before + 1000);
+      // Older timestamps never move lastAccessed backwards
+      expect(second.accessCount).toBe(2);
+      expect(second.lastAccessed).toBe(before + 1000);
+    });
+  });
+
+  describe('Migration', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'engram-sqlite-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should backfill the FTS index for existing databases', async () => {
+      const path = join(dir, 'legacy.db');
+
+      // Database written before the FTS index existed
+      const legacy = new SqliteStore({ path, wal: false });
+      await legacy.put(createMemory('1', 'Legacy memory about kubernetes'));
+      await legacy.close();
+      const raw = new Database(path);
+      raw.exec(`
+        DROP TRIGGER memories_fts_delete;
+        DROP TRIGGER memories_fts_stale;
+        DROP TABLE memories_fts;
+      `);
+      raw.close();
+
+      const reopened = new SqliteStore({ path, wal: false });
+      const results = await reopened.search('kubernetes', 5);
+      await reopened.close();
+
+      expect(results.map((m) => m.id)).toEqual(['1']);
+    });
+
+    it('should accept writes from connections without the JS tokenizer', async () => {
+      const path = join(dir, 'shared.db');
+
+      // Database from a version that tokenized in triggers
+      const first = new SqliteStore({ path, wal: false });
+      await first.putMany([
+        createMemory('1', 'Memory about kubernetes'),
+        createMemory('2', 'Memory about postgres'),
+      ]);
+      await first.close();
+      const legacy = new Database(path);
+      legacy.exec(`
+        CREATE TRIGGER memories_fts_insert AFTER INSERT ON memories BEGIN
+          INSERT INTO memories_fts(rowid, tokens) VALUES (new.rowid, engram_tokenize(new.content));
+        END;
+      `);
+      legacy.close();
+      await new SqliteStore({ path, wal: false }).close();
+
+      // e.g. the sqlite3 CLI or a migration script
+      const raw = new Database(path);
+      raw.exec(`
+        INSERT INTO memories (id, content, category, source, surprise, importance,
+          lastAccessed, createdAt, metadata)
+          SELECT '3', 'Memory about terraform', category, source, surprise, importance,
+            lastAccessed, createdAt, metadata FROM memories WHERE id = '1';
+        UPDATE memories SET content = 'Memory about redis' WHERE id = '2';
+        DELETE FROM memories WHERE id = '1';
+      `);
+      raw.close();
+
+      const reopened = new SqliteStore({ path, wal: false });
+      const search = async (query: string) =>
+        (await reopened.search(query, 5)).map((m) => m.id);
+      expect(await search('kubernetes')).toEqual([]);
+      expect(await search('postgres')).toEqual([]);
+      expect(await search('redis')).toEqual(['2']);
+      expect(await search('terraform')).toEqual(['3']);
+      await reopened.close();
+    });
+  });
+});